@@ -10,642 +10,8947 @@
  * 4. Context（上下文）：包含解释器之外的一些全局信息
  */
 
+import * as fs from "fs";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+
 // =============================================================================
 // 基本解释器实现
 // =============================================================================
 
 /**
- * 上下文类
+ * 数值模式：
+ * - float：JS 双精度浮点数（默认）
+ * - rational：以 BigInt 分子/分母表示的精确有理数
+ * - decimal：固定小数位数的十进制数，每步运算后按四舍五入保留 scale 位
  */
-class Context {
-  private variables: Map<string, number> = new Map();
-
-  setVariable(name: string, value: number): void {
-    this.variables.set(name, value);
-  }
-
-  getVariable(name: string): number {
-    return this.variables.get(name) || 0;
-  }
+type NumericMode = "float" | "rational" | "decimal";
 
-  hasVariable(name: string): boolean {
-    return this.variables.has(name);
-  }
+/**
+ * 表达式求值得到的数值，具体类型取决于上下文的数值模式
+ */
+type Numeric = number | Rational | FixedDecimal;
 
-  toString(): string {
-    return Array.from(this.variables.entries())
-      .map(([key, value]) => `${key}=${value}`)
-      .join(", ");
-  }
+function absBigInt(value: bigint): bigint {
+  return value < 0n ? -value : value;
 }
 
-/**
- * 抽象表达式
- */
-abstract class AbstractExpression {
-  abstract interpret(context: Context): number;
+function gcd(a: bigint, b: bigint): bigint {
+  a = absBigInt(a);
+  b = absBigInt(b);
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
 }
 
 /**
- * 终结符表达式：数字
+ * 整数除法，结果按四舍五入（远离零）取整
  */
-class NumberExpression extends AbstractExpression {
-  private value: number;
-
-  constructor(value: number) {
-    super();
-    this.value = value;
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
   }
-
-  interpret(context: Context): number {
-    return this.value;
+  const quotient = numerator / denominator;
+  const remainder = absBigInt(numerator % denominator);
+  if (remainder * 2n >= denominator) {
+    return numerator < 0n ? quotient - 1n : quotient + 1n;
   }
+  return quotient;
+}
 
-  toString(): string {
-    return this.value.toString();
-  }
+function powerOfTen(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
 }
 
 /**
- * 终结符表达式：变量
+ * 精确有理数，分母恒为正且与分子互质
  */
-class VariableExpression extends AbstractExpression {
-  private name: string;
+class Rational {
+  readonly numerator: bigint;
+  readonly denominator: bigint;
 
-  constructor(name: string) {
-    super();
-    this.name = name;
+  constructor(numerator: bigint, denominator: bigint = 1n) {
+    if (denominator === 0n) {
+      throw new Error("除数不能为零");
+    }
+    if (denominator < 0n) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+    const divisor = gcd(numerator, denominator);
+    this.numerator = numerator / divisor;
+    this.denominator = denominator / divisor;
   }
 
-  interpret(context: Context): number {
-    return context.getVariable(this.name);
+  /**
+   * 解析十进制文本（支持小数与科学计数法），如 "0.1"、"1.5e-3"
+   */
+  static parse(text: string): Rational {
+    const match = text
+      .trim()
+      .match(/^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/);
+    if (!match || (match[2] === "" && !match[3])) {
+      throw new Error(`无法精确表示的数值: ${text}`);
+    }
+    const [, sign, integer, fraction = "", exponentText = "0"] = match;
+    const exponent = parseInt(exponentText, 10) - fraction.length;
+    let numerator = BigInt(`${integer}${fraction}` || "0");
+    let denominator = 1n;
+    if (exponent >= 0) {
+      numerator *= powerOfTen(exponent);
+    } else {
+      denominator = powerOfTen(-exponent);
+    }
+    return new Rational(sign === "-" ? -numerator : numerator, denominator);
   }
 
-  toString(): string {
-    return this.name;
+  static fromNumber(value: number): Rational {
+    if (!isFinite(value)) {
+      throw new Error(`无法精确表示的数值: ${value}`);
+    }
+    // 使用最短往返表示，使 0.1 转换为 1/10 而不是其二进制近似值
+    return Rational.parse(String(value));
   }
-}
-
-/**
- * 非终结符表达式：加法
- */
-class AddExpression extends AbstractExpression {
-  private left: AbstractExpression;
-  private right: AbstractExpression;
 
-  constructor(left: AbstractExpression, right: AbstractExpression) {
-    super();
-    this.left = left;
-    this.right = right;
+  isInteger(): boolean {
+    return this.denominator === 1n;
   }
 
-  interpret(context: Context): number {
-    return this.left.interpret(context) + this.right.interpret(context);
+  toNumber(): number {
+    return Number(this.numerator) / Number(this.denominator);
   }
 
   toString(): string {
-    return `(${this.left.toString()} + ${this.right.toString()})`;
+    return this.isInteger()
+      ? this.numerator.toString()
+      : `${this.numerator}/${this.denominator}`;
   }
 }
 
 /**
- * 非终结符表达式：减法
+ * 定点十进制数：value = units / 10^scale
  */
-class SubtractExpression extends AbstractExpression {
-  private left: AbstractExpression;
-  private right: AbstractExpression;
+class FixedDecimal {
+  readonly units: bigint;
+  readonly scale: number;
 
-  constructor(left: AbstractExpression, right: AbstractExpression) {
-    super();
-    this.left = left;
-    this.right = right;
+  constructor(units: bigint, scale: number) {
+    this.units = units;
+    this.scale = scale;
   }
 
-  interpret(context: Context): number {
-    return this.left.interpret(context) - this.right.interpret(context);
+  /**
+   * 解析十进制文本并四舍五入到 scale 位小数，不经过浮点数
+   */
+  static parse(text: string, scale: number): FixedDecimal {
+    return FixedDecimal.fromRational(Rational.parse(text), scale);
   }
 
-  toString(): string {
-    return `(${this.left.toString()} - ${this.right.toString()})`;
+  static fromRational(value: Rational, scale: number): FixedDecimal {
+    return new FixedDecimal(
+      divideRounded(value.numerator * powerOfTen(scale), value.denominator),
+      scale
+    );
   }
-}
-
-/**
- * 非终结符表达式：乘法
- */
-class MultiplyExpression extends AbstractExpression {
-  private left: AbstractExpression;
-  private right: AbstractExpression;
 
-  constructor(left: AbstractExpression, right: AbstractExpression) {
-    super();
-    this.left = left;
-    this.right = right;
+  toRational(): Rational {
+    return new Rational(this.units, powerOfTen(this.scale));
   }
 
-  interpret(context: Context): number {
-    return this.left.interpret(context) * this.right.interpret(context);
+  toNumber(): number {
+    return Number(this.toString());
   }
 
   toString(): string {
-    return `(${this.left.toString()} * ${this.right.toString()})`;
+    const digits = absBigInt(this.units)
+      .toString()
+      .padStart(this.scale + 1, "0");
+    const sign = this.units < 0n ? "-" : "";
+    if (this.scale === 0) {
+      return `${sign}${digits}`;
+    }
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale);
+    return `${sign}${integer}.${fraction}`;
   }
 }
 
 /**
- * 非终结符表达式：除法
+ * 算术策略：表达式节点通过它完成运算，从而支持不同的数值模式
  */
-class DivideExpression extends AbstractExpression {
-  private left: AbstractExpression;
-  private right: AbstractExpression;
+interface Arithmetic {
+  readonly mode: NumericMode;
+  /** 把任意模式下的数值转换为本模式的数值 */
+  coerce(value: Numeric): Numeric;
+  fromNumber(value: number): Numeric;
+  /** 解析数字字面量的源文本，精确模式下不经过浮点数 */
+  parse(text: string): Numeric;
+  toNumber(value: Numeric): number;
+  isZero(value: Numeric): boolean;
+  compare(left: Numeric, right: Numeric): number;
+  add(left: Numeric, right: Numeric): Numeric;
+  subtract(left: Numeric, right: Numeric): Numeric;
+  multiply(left: Numeric, right: Numeric): Numeric;
+  divide(left: Numeric, right: Numeric): Numeric;
+  modulo(left: Numeric, right: Numeric): Numeric;
+  power(base: Numeric, exponent: Numeric): Numeric;
+  negate(value: Numeric): Numeric;
+  round(value: Numeric, digits: number): Numeric;
+}
 
-  constructor(left: AbstractExpression, right: AbstractExpression) {
-    super();
-    this.left = left;
-    this.right = right;
+/**
+ * 比较两个浮点数，返回负数、0 或正数；任一为 NaN 时返回 NaN
+ */
+function compareNumbers(left: number, right: number): number {
+  if (left < right) {
+    return -1;
   }
-
-  interpret(context: Context): number {
-    const rightValue = this.right.interpret(context);
-    if (rightValue === 0) {
-      throw new Error("除数不能为零");
-    }
-    return this.left.interpret(context) / rightValue;
+  if (left > right) {
+    return 1;
   }
+  return left === right ? 0 : NaN;
+}
 
-  toString(): string {
-    return `(${this.left.toString()} / ${this.right.toString()})`;
-  }
+function numericToNumber(value: Numeric): number {
+  return typeof value === "number" ? value : value.toNumber();
 }
 
-// =============================================================================
-// 示例1：简单计算器解释器
-// =============================================================================
+function numericToRational(value: Numeric): Rational {
+  if (value instanceof Rational) {
+    return value;
+  }
+  if (value instanceof FixedDecimal) {
+    return value.toRational();
+  }
+  return Rational.fromNumber(value);
+}
 
 /**
- * 计算器解释器
+ * 浮点算术（默认模式）
  */
-class Calculator {
-  private context: Context;
+class FloatArithmetic implements Arithmetic {
+  readonly mode: NumericMode = "float";
 
-  constructor() {
-    this.context = new Context();
+  coerce(value: Numeric): number {
+    return numericToNumber(value);
   }
 
-  setVariable(name: string, value: number): void {
-    this.context.setVariable(name, value);
+  fromNumber(value: number): number {
+    return value;
   }
 
-  evaluate(expression: string): number {
-    const tokens = this.tokenize(expression);
-    const ast = this.parse(tokens);
-    return ast.interpret(this.context);
+  parse(text: string): number {
+    return parseFloat(text);
   }
 
-  private tokenize(expression: string): string[] {
-    return expression.match(/\d+|\w+|[+\-*/()]/g) || [];
+  toNumber(value: Numeric): number {
+    return numericToNumber(value);
   }
 
-  private parse(tokens: string[]): AbstractExpression {
-    const stack: AbstractExpression[] = [];
-    const operators: string[] = [];
+  isZero(value: Numeric): boolean {
+    return this.coerce(value) === 0;
+  }
 
-    for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i];
+  compare(left: Numeric, right: Numeric): number {
+    return compareNumbers(this.coerce(left), this.coerce(right));
+  }
 
-      if (this.isNumber(token)) {
-        stack.push(new NumberExpression(parseFloat(token)));
-      } else if (this.isVariable(token)) {
-        stack.push(new VariableExpression(token));
-      } else if (this.isOperator(token)) {
-        while (
-          operators.length > 0 &&
-          this.precedence(operators[operators.length - 1]) >=
-            this.precedence(token)
-        ) {
-          const op = operators.pop()!;
-          const right = stack.pop()!;
-          const left = stack.pop()!;
-          stack.push(this.createExpression(op, left, right));
-        }
-        operators.push(token);
-      } else if (token === "(") {
-        operators.push(token);
-      } else if (token === ")") {
-        while (
-          operators.length > 0 &&
-          operators[operators.length - 1] !== "("
-        ) {
-          const op = operators.pop()!;
-          const right = stack.pop()!;
-          const left = stack.pop()!;
-          stack.push(this.createExpression(op, left, right));
-        }
-        operators.pop(); // 移除左括号
-      }
-    }
+  add(left: Numeric, right: Numeric): number {
+    return this.coerce(left) + this.coerce(right);
+  }
 
-    while (operators.length > 0) {
-      const op = operators.pop()!;
-      const right = stack.pop()!;
-      const left = stack.pop()!;
-      stack.push(this.createExpression(op, left, right));
-    }
+  subtract(left: Numeric, right: Numeric): number {
+    return this.coerce(left) - this.coerce(right);
+  }
 
-    return stack[0];
+  multiply(left: Numeric, right: Numeric): number {
+    return this.coerce(left) * this.coerce(right);
   }
 
-  private isNumber(token: string): boolean {
-    return /^\d+$/.test(token);
+  divide(left: Numeric, right: Numeric): number {
+    return this.coerce(left) / this.coerce(right);
   }
 
-  private isVariable(token: string): boolean {
-    return /^[a-zA-Z]\w*$/.test(token);
+  modulo(left: Numeric, right: Numeric): number {
+    return this.coerce(left) % this.coerce(right);
   }
 
-  private isOperator(token: string): boolean {
-    return ["+", "-", "*", "/"].includes(token);
+  power(base: Numeric, exponent: Numeric): number {
+    return Math.pow(this.coerce(base), this.coerce(exponent));
   }
 
-  private precedence(operator: string): number {
-    switch (operator) {
-      case "+":
-      case "-":
-        return 1;
-      case "*":
-      case "/":
-        return 2;
-      default:
-        return 0;
-    }
+  negate(value: Numeric): number {
+    return -this.coerce(value);
   }
 
-  private createExpression(
-    operator: string,
-    left: AbstractExpression,
-    right: AbstractExpression
-  ): AbstractExpression {
-    switch (operator) {
-      case "+":
-        return new AddExpression(left, right);
-      case "-":
-        return new SubtractExpression(left, right);
-      case "*":
-        return new MultiplyExpression(left, right);
-      case "/":
-        return new DivideExpression(left, right);
-      default:
-        throw new Error(`未知运算符: ${operator}`);
-    }
+  round(value: Numeric, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(this.coerce(value) * factor) / factor;
   }
 }
 
-// =============================================================================
-// 示例2：SQL查询解释器
-// =============================================================================
-
 /**
- * SQL上下文
+ * 精确有理数算术
  */
-class SQLContext {
-  private tables: Map<string, any[]> = new Map();
+class RationalArithmetic implements Arithmetic {
+  readonly mode: NumericMode = "rational";
 
-  addTable(name: string, data: any[]): void {
-    this.tables.set(name, data);
+  coerce(value: Numeric): Rational {
+    return numericToRational(value);
   }
 
-  getTable(name: string): any[] {
-    return this.tables.get(name) || [];
+  fromNumber(value: number): Rational {
+    return Rational.fromNumber(value);
   }
 
-  hasTable(name: string): boolean {
-    return this.tables.has(name);
+  parse(text: string): Rational {
+    return Rational.parse(text);
   }
-}
 
-/**
- * SQL抽象表达式
- */
-abstract class SQLExpression {
-  abstract interpret(context: SQLContext): any[];
-}
+  toNumber(value: Numeric): number {
+    return numericToNumber(value);
+  }
 
-/**
- * SELECT表达式
- */
-class SelectExpression extends SQLExpression {
-  private columns: string[];
-  private table: string;
-  private whereClause?: WhereExpression;
+  isZero(value: Numeric): boolean {
+    return this.coerce(value).numerator === 0n;
+  }
 
-  constructor(columns: string[], table: string, whereClause?: WhereExpression) {
-    super();
-    this.columns = columns;
-    this.table = table;
-    this.whereClause = whereClause;
+  compare(left: Numeric, right: Numeric): number {
+    const a = this.coerce(left);
+    const b = this.coerce(right);
+    const difference =
+      a.numerator * b.denominator - b.numerator * a.denominator;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
   }
 
-  interpret(context: SQLContext): any[] {
-    let data = context.getTable(this.table);
+  add(left: Numeric, right: Numeric): Rational {
+    const a = this.coerce(left);
+    const b = this.coerce(right);
+    return new Rational(
+      a.numerator * b.denominator + b.numerator * a.denominator,
+      a.denominator * b.denominator
+    );
+  }
 
-    if (this.whereClause) {
-      data = data.filter((row) => this.whereClause!.evaluate(row));
-    }
+  subtract(left: Numeric, right: Numeric): Rational {
+    return this.add(left, this.negate(right));
+  }
 
-    if (this.columns.includes("*")) {
-      return data;
+  multiply(left: Numeric, right: Numeric): Rational {
+    const a = this.coerce(left);
+    const b = this.coerce(right);
+    return new Rational(
+      a.numerator * b.numerator,
+      a.denominator * b.denominator
+    );
+  }
+
+  divide(left: Numeric, right: Numeric): Rational {
+    const a = this.coerce(left);
+    const b = this.coerce(right);
+    return new Rational(
+      a.numerator * b.denominator,
+      a.denominator * b.numerator
+    );
+  }
+
+  /**
+   * 与 JS 的 % 一致：结果符号与被除数相同
+   */
+  modulo(left: Numeric, right: Numeric): Rational {
+    const quotient = this.divide(left, right);
+    const truncated = new Rational(quotient.numerator / quotient.denominator);
+    return this.subtract(left, this.multiply(right, truncated));
+  }
+
+  /**
+   * 整数指数精确计算，非整数指数退化为浮点运算
+   */
+  power(base: Numeric, exponent: Numeric): Rational {
+    const b = this.coerce(base);
+    const e = this.coerce(exponent);
+    if (!e.isInteger()) {
+      return this.fromNumber(Math.pow(b.toNumber(), e.toNumber()));
     }
+    const n = absBigInt(e.numerator);
+    const result = new Rational(b.numerator ** n, b.denominator ** n);
+    return e.numerator < 0n ? this.divide(new Rational(1n), result) : result;
+  }
 
-    return data.map((row) => {
-      const result: any = {};
-      this.columns.forEach((col) => {
-        if (row.hasOwnProperty(col)) {
-          result[col] = row[col];
-        }
-      });
-      return result;
-    });
+  negate(value: Numeric): Rational {
+    const a = this.coerce(value);
+    return new Rational(-a.numerator, a.denominator);
+  }
+
+  round(value: Numeric, digits: number): Rational {
+    const a = this.coerce(value);
+    const factor = powerOfTen(digits);
+    return new Rational(
+      divideRounded(a.numerator * factor, a.denominator),
+      factor
+    );
   }
 }
 
 /**
- * WHERE表达式
+ * 定点十进制算术，乘除结果按四舍五入保留 scale 位小数
  */
-class WhereExpression {
-  private column: string;
-  private operator: string;
-  private value: any;
+class DecimalArithmetic implements Arithmetic {
+  readonly mode: NumericMode = "decimal";
+  readonly scale: number;
 
-  constructor(column: string, operator: string, value: any) {
-    this.column = column;
-    this.operator = operator;
-    this.value = value;
+  constructor(scale: number) {
+    if (!Number.isInteger(scale) || scale < 0) {
+      throw new Error(`小数位数必须是非负整数: ${scale}`);
+    }
+    this.scale = scale;
   }
 
-  evaluate(row: any): boolean {
-    const columnValue = row[this.column];
-
-    switch (this.operator) {
-      case "=":
-        return columnValue === this.value;
-      case "!=":
-        return columnValue !== this.value;
-      case ">":
-        return columnValue > this.value;
-      case "<":
-        return columnValue < this.value;
-      case ">=":
-        return columnValue >= this.value;
-      case "<=":
-        return columnValue <= this.value;
-      case "LIKE":
-        return columnValue.toString().includes(this.value.toString());
-      default:
-        return false;
+  coerce(value: Numeric): FixedDecimal {
+    if (value instanceof FixedDecimal && value.scale === this.scale) {
+      return value;
     }
+    return FixedDecimal.fromRational(numericToRational(value), this.scale);
   }
-}
 
-/**
- * 简单SQL解释器
- */
-class SQLInterpreter {
-  private context: SQLContext;
+  fromNumber(value: number): FixedDecimal {
+    return this.coerce(value);
+  }
 
-  constructor() {
-    this.context = new SQLContext();
+  parse(text: string): FixedDecimal {
+    return FixedDecimal.parse(text, this.scale);
   }
 
-  addTable(name: string, data: any[]): void {
-    this.context.addTable(name, data);
+  toNumber(value: Numeric): number {
+    return numericToNumber(value);
+  }
+
+  isZero(value: Numeric): boolean {
+    return this.coerce(value).units === 0n;
+  }
+
+  compare(left: Numeric, right: Numeric): number {
+    const difference = this.coerce(left).units - this.coerce(right).units;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  }
+
+  add(left: Numeric, right: Numeric): FixedDecimal {
+    return this.create(this.coerce(left).units + this.coerce(right).units);
   }
 
-  execute(sql: string): any[] {
-    const expression = this.parseSQL(sql);
-    return expression.interpret(this.context);
+  subtract(left: Numeric, right: Numeric): FixedDecimal {
+    return this.create(this.coerce(left).units - this.coerce(right).units);
   }
 
-  private parseSQL(sql: string): SQLExpression {
-    // 简化的SQL解析（仅支持基本的SELECT语句）
-    const selectMatch = sql.match(
-      /SELECT\s+(.+?)\s+FROM\s+(\w+)(?:\s+WHERE\s+(.+))?/i
+  multiply(left: Numeric, right: Numeric): FixedDecimal {
+    return this.create(
+      divideRounded(
+        this.coerce(left).units * this.coerce(right).units,
+        powerOfTen(this.scale)
+      )
     );
+  }
 
-    if (!selectMatch) {
-      throw new Error("不支持的SQL语法");
-    }
+  divide(left: Numeric, right: Numeric): FixedDecimal {
+    return this.create(
+      divideRounded(
+        this.coerce(left).units * powerOfTen(this.scale),
+        this.coerce(right).units
+      )
+    );
+  }
 
-    const columns = selectMatch[1].split(",").map((col) => col.trim());
-    const table = selectMatch[2];
-    const whereClause = selectMatch[3];
+  modulo(left: Numeric, right: Numeric): FixedDecimal {
+    return this.create(this.coerce(left).units % this.coerce(right).units);
+  }
 
-    let whereExpression: WhereExpression | undefined;
-    if (whereClause) {
-      const whereMatch = whereClause.match(
-        /(\w+)\s*(=|!=|>|<|>=|<=|LIKE)\s*(.+)/i
-      );
-      if (whereMatch) {
-        const column = whereMatch[1];
-        const operator = whereMatch[2];
-        let value: any = whereMatch[3];
+  /**
+   * 先按有理数精确计算整数次幂，再舍入到 scale 位
+   */
+  power(base: Numeric, exponent: Numeric): FixedDecimal {
+    return this.coerce(
+      new RationalArithmetic().power(
+        this.coerce(base).toRational(),
+        this.coerce(exponent).toRational()
+      )
+    );
+  }
 
-        // 处理字符串值
-        if (value.startsWith("'") && value.endsWith("'")) {
-          value = value.slice(1, -1);
-        } else if (!isNaN(value)) {
-          value = parseFloat(value);
-        }
+  negate(value: Numeric): FixedDecimal {
+    return this.create(-this.coerce(value).units);
+  }
 
-        whereExpression = new WhereExpression(column, operator, value);
-      }
+  round(value: Numeric, digits: number): FixedDecimal {
+    const a = this.coerce(value);
+    if (digits >= this.scale) {
+      return a;
     }
+    const factor = powerOfTen(this.scale - digits);
+    return this.create(divideRounded(a.units, factor) * factor);
+  }
 
-    return new SelectExpression(columns, table, whereExpression);
+  private create(units: bigint): FixedDecimal {
+    return new FixedDecimal(units, this.scale);
   }
 }
 
-// =============================================================================
+function createArithmetic(mode: NumericMode, scale: number): Arithmetic {
+  switch (mode) {
+    case "float":
+      return new FloatArithmetic();
+    case "rational":
+      return new RationalArithmetic();
+    case "decimal":
+      return new DecimalArithmetic(scale);
+    default:
+      throw new Error(`未知的数值模式: ${mode}`);
+  }
+}
+
+/**
+ * 上下文类
+ *
+ * 子上下文（函数调用时创建）拥有自己的变量表，查找不到时沿父上下文向上查找；
+ * 函数调用深度由同一棵上下文树共享的计数器统计。
+ */
+class Context {
+  private variables: Map<string, Numeric> = new Map();
+  private functions: Map<string, CalculatorFunction> = new Map();
+  private parent?: Context;
+  private callStack: { depth: number; maxDepth: number };
+  private strict: boolean = false;
+  private arithmetic: Arithmetic;
+  // 为 true 时赋值和函数定义写入父上下文，见 createBindingScope
+  private writeThrough: boolean = false;
+
+  constructor(parent?: Context) {
+    this.parent = parent;
+    if (parent) {
+      this.callStack = parent.callStack;
+      this.strict = parent.strict;
+      this.arithmetic = parent.arithmetic;
+    } else {
+      this.callStack = { depth: 0, maxDepth: 100 };
+      this.arithmetic = new FloatArithmetic();
+      registerStandardFunctions(this);
+    }
+  }
+
+  setVariable(name: string, value: number): void {
+    this.setValue(name, value);
+  }
+
+  getVariable(name: string): number {
+    return this.arithmetic.toNumber(this.getValue(name));
+  }
+
+  /**
+   * 写入任意数值模式下的值（如 Rational），读取时再转换为当前模式
+   */
+  setValue(name: string, value: Numeric): void {
+    if (this.writeThrough) {
+      this.parent!.setValue(name, value);
+      return;
+    }
+    this.variables.set(name, value);
+  }
+
+  /**
+   * 按当前数值模式读取变量，未定义的变量视为 0
+   */
+  getValue(name: string): Numeric {
+    if (!this.variables.has(name) && this.parent) {
+      return this.parent.getValue(name);
+    }
+    const value = this.variables.get(name);
+    if (value === undefined) {
+      if (this.strict) {
+        throw new UndefinedVariableError([name]);
+      }
+      return this.arithmetic.fromNumber(0);
+    }
+    return this.arithmetic.coerce(value);
+  }
+
+  hasVariable(name: string): boolean {
+    return (
+      this.variables.has(name) ||
+      (this.parent !== undefined && this.parent.hasVariable(name))
+    );
+  }
+
+  /**
+   * 切换数值模式，scale 仅在 decimal 模式下表示保留的小数位数
+   */
+  setNumericMode(mode: NumericMode, scale: number = 2): void {
+    this.arithmetic = createArithmetic(mode, scale);
+  }
+
+  getNumericMode(): NumericMode {
+    return this.arithmetic.mode;
+  }
+
+  getArithmetic(): Arithmetic {
+    return this.arithmetic;
+  }
+
+  /**
+   * 严格模式下读取未定义的变量会抛出 UndefinedVariableError，而不是返回 0
+   */
+  setStrict(strict: boolean): void {
+    this.strict = strict;
+  }
+
+  isStrict(): boolean {
+    return this.strict;
+  }
+
+  /**
+   * 严格模式下检查给定变量是否都已定义，一次性报告全部缺失的变量
+   */
+  checkVariables(names: string[]): void {
+    if (!this.strict) {
+      return;
+    }
+    const missing = names.filter((name) => !this.hasVariable(name));
+    if (missing.length > 0) {
+      throw new UndefinedVariableError(missing);
+    }
+  }
+
+  /**
+   * 注册以 TypeScript 实现的函数，参数个数默认取 implementation.length
+   */
+  registerFunction(
+    name: string,
+    implementation: (...args: number[]) => number,
+    minArity: number = implementation.length,
+    maxArity: number = minArity
+  ): void {
+    this.defineFunction(
+      name,
+      new NativeFunction(implementation, minArity, maxArity)
+    );
+  }
+
+  defineFunction(name: string, fn: CalculatorFunction): void {
+    if (this.writeThrough) {
+      this.parent!.defineFunction(name, fn);
+      return;
+    }
+    this.functions.set(name, fn);
+  }
+
+  getFunction(name: string): CalculatorFunction {
+    const fn = this.functions.get(name);
+    if (fn) {
+      return fn;
+    }
+    if (this.parent) {
+      return this.parent.getFunction(name);
+    }
+    throw new Error(`未定义的函数: ${name}`);
+  }
+
+  hasFunction(name: string): boolean {
+    return (
+      this.functions.has(name) ||
+      (this.parent !== undefined && this.parent.hasFunction(name))
+    );
+  }
+
+  setMaxCallDepth(maxDepth: number): void {
+    this.callStack.maxDepth = maxDepth;
+  }
+
+  /**
+   * 进入一次用户函数调用，超过最大深度时抛出错误
+   */
+  enterCall(name: string): void {
+    if (this.callStack.depth >= this.callStack.maxDepth) {
+      throw new Error(
+        `函数 ${name} 调用深度超过限制（${this.callStack.maxDepth}）`
+      );
+    }
+    this.callStack.depth++;
+  }
+
+  exitCall(): void {
+    this.callStack.depth--;
+  }
+
+  createChild(): Context {
+    return new Context(this);
+  }
+
+  /**
+   * 绑定作用域：读取变量时先查 bindings，赋值和函数定义仍写入当前上下文，
+   * 与编译后的闭包在浮点模式下的行为一致
+   */
+  createBindingScope(bindings: Bindings): Context {
+    const scope = new Context(this);
+    Object.keys(bindings).forEach((name) => {
+      if (typeof bindings[name] === "number") {
+        scope.variables.set(name, bindings[name]);
+      }
+    });
+    scope.writeThrough = true;
+    return scope;
+  }
+
+  toString(): string {
+    return Array.from(this.variables.entries())
+      .map(([key, value]) => `${key}=${value}`)
+      .join(", ");
+  }
+}
+
+/**
+ * 严格模式下引用了未定义的变量
+ */
+class UndefinedVariableError extends Error {
+  readonly names: string[];
+
+  constructor(names: string[]) {
+    super(`未定义的变量: ${names.join(", ")}`);
+    this.name = "UndefinedVariableError";
+    this.names = names;
+  }
+}
+
+/**
+ * 可在表达式中调用的函数
+ */
+interface CalculatorFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  call(args: Numeric[], context: Context): Numeric;
+}
+
+/**
+ * 内置或宿主注册的函数
+ *
+ * 实现总是以浮点数计算，精确模式下参数先转换为浮点数，结果再转换回当前模式。
+ */
+class NativeFunction implements CalculatorFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  private implementation: (...args: number[]) => number;
+
+  constructor(
+    implementation: (...args: number[]) => number,
+    minArity: number,
+    maxArity: number
+  ) {
+    this.implementation = implementation;
+    this.minArity = minArity;
+    this.maxArity = maxArity;
+  }
+
+  call(args: Numeric[], context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const values = args.map((arg) => arithmetic.toNumber(arg));
+    return arithmetic.fromNumber(this.implementation(...values));
+  }
+}
+
+/**
+ * 直接使用算术策略实现的函数，在所有数值模式下都保持精确
+ */
+class ArithmeticFunction implements CalculatorFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  private implementation: (args: Numeric[], arithmetic: Arithmetic) => Numeric;
+
+  constructor(
+    implementation: (args: Numeric[], arithmetic: Arithmetic) => Numeric,
+    minArity: number,
+    maxArity: number
+  ) {
+    this.implementation = implementation;
+    this.minArity = minArity;
+    this.maxArity = maxArity;
+  }
+
+  call(args: Numeric[], context: Context): Numeric {
+    return this.implementation(args, context.getArithmetic());
+  }
+}
+
+/**
+ * 通过 f(x) = ... 定义的函数，函数体在定义时所在的上下文中求值
+ */
+class UserDefinedFunction implements CalculatorFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  private name: string;
+  private parameters: string[];
+  private body: AbstractExpression;
+  private closure: Context;
+  // 函数体中引用的全局变量
+  private globals: string[];
+
+  constructor(
+    name: string,
+    parameters: string[],
+    body: AbstractExpression,
+    closure: Context
+  ) {
+    this.name = name;
+    this.parameters = parameters;
+    this.body = body;
+    this.closure = closure;
+    this.globals = collectVariables(body).filter(
+      (variable) => !parameters.includes(variable)
+    );
+    this.minArity = parameters.length;
+    this.maxArity = parameters.length;
+  }
+
+  call(args: Numeric[], context: Context): Numeric {
+    context.enterCall(this.name);
+    try {
+      // 严格模式下在调用时一次性报告函数体中所有未定义的全局变量
+      this.closure.checkVariables(this.globals);
+      const scope = this.closure.createChild();
+      this.parameters.forEach((param, index) =>
+        scope.setValue(param, args[index])
+      );
+      return this.body.evaluate(scope);
+    } finally {
+      context.exitCall();
+    }
+  }
+}
+
+/**
+ * 注册标准函数库
+ */
+function registerStandardFunctions(context: Context): void {
+  context.registerFunction("sin", Math.sin);
+  context.registerFunction("cos", Math.cos);
+  context.registerFunction("sqrt", Math.sqrt);
+  context.defineFunction(
+    "abs",
+    new ArithmeticFunction(
+      ([value], arithmetic) =>
+        arithmetic.compare(value, 0) < 0
+          ? arithmetic.negate(value)
+          : arithmetic.coerce(value),
+      1,
+      1
+    )
+  );
+  context.defineFunction(
+    "min",
+    new ArithmeticFunction(
+      (args, arithmetic) =>
+        args.reduce((min, value) =>
+          arithmetic.compare(value, min) < 0 ? value : min
+        ),
+      1,
+      Infinity
+    )
+  );
+  context.defineFunction(
+    "max",
+    new ArithmeticFunction(
+      (args, arithmetic) =>
+        args.reduce((max, value) =>
+          arithmetic.compare(value, max) > 0 ? value : max
+        ),
+      1,
+      Infinity
+    )
+  );
+  // round(x) 取整，round(x, n) 保留 n 位小数
+  context.defineFunction(
+    "round",
+    new ArithmeticFunction(
+      ([value, digits], arithmetic) =>
+        arithmetic.round(
+          value,
+          digits === undefined ? 0 : arithmetic.toNumber(digits)
+        ),
+      1,
+      2
+    )
+  );
+  // log(x) 为自然对数，log(x, base) 为以 base 为底的对数
+  context.registerFunction(
+    "log",
+    (value: number, base?: number) =>
+      base === undefined ? Math.log(value) : Math.log(value) / Math.log(base),
+    1,
+    2
+  );
+}
+
+/**
+ * 变量绑定：编译后的表达式优先从这里读取变量，缺失时再查上下文
+ */
+type Bindings = Readonly<Record<string, number>>;
+
+/**
+ * 表达式编译得到的闭包
+ */
+type CompiledNode = (bindings: Bindings, context: Context) => number;
+
+/**
+ * 抽象表达式
+ */
+abstract class AbstractExpression {
+  /**
+   * 按上下文的数值模式求值
+   */
+  abstract evaluate(context: Context): Numeric;
+
+  /**
+   * 求值并转换为 JS 数值
+   */
+  interpret(context: Context): number {
+    return context.getArithmetic().toNumber(this.evaluate(context));
+  }
+
+  /**
+   * 把表达式树编译为闭包，求值时不再按节点类型分派
+   */
+  abstract compile(): CompiledNode;
+
+  /**
+   * 对 variable 求偏导，返回新的表达式树（未化简）
+   */
+  abstract derive(variable: string): AbstractExpression;
+
+  /**
+   * 折叠常量并去掉 x*1、x+0、0*x 之类的冗余项，返回新的表达式树
+   */
+  abstract simplify(): AbstractExpression;
+
+  /**
+   * 收集未被 bound 绑定的变量名（自由变量）
+   */
+  abstract collectVariables(
+    bound: ReadonlySet<string>,
+    result: Set<string>
+  ): void;
+}
+
+/**
+ * 终结符表达式：数字
+ *
+ * 从源码解析得到的数字保留字面量文本，精确模式下直接由文本构造数值，
+ * 避免先舍入为浮点数（如 12345678901234567890、1e400）。
+ */
+class NumberExpression extends AbstractExpression {
+  private value: number;
+  private source?: string;
+  // 最近一次按某种算术解析 source 的结果
+  private parsed?: { arithmetic: Arithmetic; value: Numeric };
+
+  constructor(value: number, source?: string) {
+    super();
+    this.value = value;
+    this.source = source;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    if (this.source === undefined) {
+      return arithmetic.fromNumber(this.value);
+    }
+    if (!this.parsed || this.parsed.arithmetic !== arithmetic) {
+      this.parsed = { arithmetic, value: arithmetic.parse(this.source) };
+    }
+    return this.parsed.value;
+  }
+
+  compile(): CompiledNode {
+    const value = this.value;
+    return () => value;
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    // 数字不含变量
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(0);
+  }
+
+  simplify(): AbstractExpression {
+    return this;
+  }
+
+  getValue(): number {
+    return this.value;
+  }
+
+  toString(): string {
+    return this.source ?? this.value.toString();
+  }
+}
+
+/**
+ * 终结符表达式：变量
+ */
+class VariableExpression extends AbstractExpression {
+  private name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context.getValue(this.name);
+  }
+
+  compile(): CompiledNode {
+    const name = this.name;
+    return (bindings, context) => {
+      const value = bindings[name];
+      return typeof value === "number" ? value : context.getVariable(name);
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    if (!bound.has(this.name)) {
+      result.add(this.name);
+    }
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(this.name === variable ? 1 : 0);
+  }
+
+  simplify(): AbstractExpression {
+    return this;
+  }
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+/**
+ * 非终结符表达式：加法
+ */
+class AddExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context
+      .getArithmetic()
+      .add(this.left.evaluate(context), this.right.evaluate(context));
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) =>
+      left(bindings, context) + right(bindings, context);
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new AddExpression(
+      this.left.derive(variable),
+      this.right.derive(variable)
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      return new NumberExpression(left.getValue() + right.getValue());
+    }
+    if (isNumber(left, 0)) {
+      return right;
+    }
+    if (isNumber(right, 0)) {
+      return left;
+    }
+    return new AddExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} + ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：减法
+ */
+class SubtractExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context
+      .getArithmetic()
+      .subtract(this.left.evaluate(context), this.right.evaluate(context));
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) =>
+      left(bindings, context) - right(bindings, context);
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new SubtractExpression(
+      this.left.derive(variable),
+      this.right.derive(variable)
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      return new NumberExpression(left.getValue() - right.getValue());
+    }
+    if (isNumber(right, 0)) {
+      return left;
+    }
+    if (isNumber(left, 0)) {
+      return new NegateExpression(right).simplify();
+    }
+    return new SubtractExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} - ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：乘法
+ */
+class MultiplyExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context
+      .getArithmetic()
+      .multiply(this.left.evaluate(context), this.right.evaluate(context));
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) =>
+      left(bindings, context) * right(bindings, context);
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    // (uv)' = u'v + uv'
+    return new AddExpression(
+      new MultiplyExpression(this.left.derive(variable), this.right),
+      new MultiplyExpression(this.left, this.right.derive(variable))
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      return new NumberExpression(left.getValue() * right.getValue());
+    }
+    if (isNumber(left, 0) || isNumber(right, 0)) {
+      return new NumberExpression(0);
+    }
+    if (isNumber(left, 1)) {
+      return right;
+    }
+    if (isNumber(right, 1)) {
+      return left;
+    }
+    return new MultiplyExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} * ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：除法
+ */
+class DivideExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const rightValue = this.right.evaluate(context);
+    if (arithmetic.isZero(rightValue)) {
+      throw new Error("除数不能为零");
+    }
+    return arithmetic.divide(this.left.evaluate(context), rightValue);
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) => {
+      const rightValue = right(bindings, context);
+      if (rightValue === 0) {
+        throw new Error("除数不能为零");
+      }
+      return left(bindings, context) / rightValue;
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    // (u/v)' = (u'v - uv') / v^2
+    return new DivideExpression(
+      new SubtractExpression(
+        new MultiplyExpression(this.left.derive(variable), this.right),
+        new MultiplyExpression(this.left, this.right.derive(variable))
+      ),
+      new PowerExpression(this.right, new NumberExpression(2))
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    // 除数为常量 0 时保留原式，让求值时报告除零错误
+    if (isNumber(left) && isNumber(right) && right.getValue() !== 0) {
+      return new NumberExpression(left.getValue() / right.getValue());
+    }
+    if (isNumber(right, 1)) {
+      return left;
+    }
+    return new DivideExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} / ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：取模
+ */
+class ModuloExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const rightValue = this.right.evaluate(context);
+    if (arithmetic.isZero(rightValue)) {
+      throw new Error("取模的除数不能为零");
+    }
+    return arithmetic.modulo(this.left.evaluate(context), rightValue);
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) => {
+      const rightValue = right(bindings, context);
+      if (rightValue === 0) {
+        throw new Error("取模的除数不能为零");
+      }
+      return left(bindings, context) % rightValue;
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    // 除数为常量时 (u % c)' = u'（忽略间断点）
+    if (dependsOn(this.right, variable)) {
+      throw new Error("不支持对除数含自变量的取模表达式求导");
+    }
+    return this.left.derive(variable);
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right) && right.getValue() !== 0) {
+      return new NumberExpression(left.getValue() % right.getValue());
+    }
+    return new ModuloExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} % ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：乘方（右结合）
+ */
+class PowerExpression extends AbstractExpression {
+  private base: AbstractExpression;
+  private exponent: AbstractExpression;
+
+  constructor(base: AbstractExpression, exponent: AbstractExpression) {
+    super();
+    this.base = base;
+    this.exponent = exponent;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context
+      .getArithmetic()
+      .power(this.base.evaluate(context), this.exponent.evaluate(context));
+  }
+
+  compile(): CompiledNode {
+    const base = this.base.compile();
+    const exponent = this.exponent.compile();
+    return (bindings, context) =>
+      Math.pow(base(bindings, context), exponent(bindings, context));
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.base.collectVariables(bound, result);
+    this.exponent.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    const baseDerivative = this.base.derive(variable);
+    // 指数为常量：(u^n)' = n * u^(n-1) * u'
+    if (!dependsOn(this.exponent, variable)) {
+      return new MultiplyExpression(
+        new MultiplyExpression(
+          this.exponent,
+          new PowerExpression(
+            this.base,
+            new SubtractExpression(this.exponent, new NumberExpression(1))
+          )
+        ),
+        baseDerivative
+      );
+    }
+    // 一般情形：(u^v)' = u^v * (v' * ln(u) + v * u' / u)
+    return new MultiplyExpression(
+      this,
+      new AddExpression(
+        new MultiplyExpression(
+          this.exponent.derive(variable),
+          new FunctionCallExpression("log", [this.base])
+        ),
+        new DivideExpression(
+          new MultiplyExpression(this.exponent, baseDerivative),
+          this.base
+        )
+      )
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const base = this.base.simplify();
+    const exponent = this.exponent.simplify();
+    if (isNumber(base) && isNumber(exponent)) {
+      return new NumberExpression(
+        Math.pow(base.getValue(), exponent.getValue())
+      );
+    }
+    if (isNumber(exponent, 0)) {
+      return new NumberExpression(1);
+    }
+    if (isNumber(exponent, 1)) {
+      return base;
+    }
+    return new PowerExpression(base, exponent);
+  }
+
+  toString(): string {
+    return `(${this.base.toString()} ^ ${this.exponent.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：一元负号
+ */
+class NegateExpression extends AbstractExpression {
+  private operand: AbstractExpression;
+
+  constructor(operand: AbstractExpression) {
+    super();
+    this.operand = operand;
+  }
+
+  evaluate(context: Context): Numeric {
+    return context.getArithmetic().negate(this.operand.evaluate(context));
+  }
+
+  compile(): CompiledNode {
+    const operand = this.operand.compile();
+    return (bindings, context) => -operand(bindings, context);
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.operand.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NegateExpression(this.operand.derive(variable));
+  }
+
+  simplify(): AbstractExpression {
+    const operand = this.operand.simplify();
+    if (isNumber(operand)) {
+      return new NumberExpression(-operand.getValue());
+    }
+    if (operand instanceof NegateExpression) {
+      return operand.operand;
+    }
+    return new NegateExpression(operand);
+  }
+
+  toString(): string {
+    return `(-${this.operand.toString()})`;
+  }
+}
+
+/**
+ * 比较运算符
+ */
+type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+/**
+ * 真值规则：非零且不是 NaN 的数值为真；布尔结果以 1（真）和 0（假）表示
+ */
+function isTruthy(value: Numeric, arithmetic: Arithmetic): boolean {
+  return isTruthyNumber(arithmetic.toNumber(value));
+}
+
+function isTruthyNumber(value: number): boolean {
+  return value !== 0 && !Number.isNaN(value);
+}
+
+function fromBoolean(value: boolean, arithmetic: Arithmetic): Numeric {
+  return arithmetic.fromNumber(value ? 1 : 0);
+}
+
+/**
+ * 根据 compare 的结果判断比较是否成立，NaN 只满足 !=
+ */
+function testComparison(operator: ComparisonOperator, order: number): boolean {
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "==":
+      return order === 0;
+    case "!=":
+      return !(order === 0);
+  }
+}
+
+/**
+ * 非终结符表达式：比较
+ */
+class ComparisonExpression extends AbstractExpression {
+  private operator: ComparisonOperator;
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(
+    operator: ComparisonOperator,
+    left: AbstractExpression,
+    right: AbstractExpression
+  ) {
+    super();
+    this.operator = operator;
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const order = arithmetic.compare(
+      this.left.evaluate(context),
+      this.right.evaluate(context)
+    );
+    return fromBoolean(testComparison(this.operator, order), arithmetic);
+  }
+
+  compile(): CompiledNode {
+    const operator = this.operator;
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) =>
+      testComparison(
+        operator,
+        compareNumbers(left(bindings, context), right(bindings, context))
+      )
+        ? 1
+        : 0;
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  /**
+   * 比较结果是分段常数，除间断点外导数为 0
+   */
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(0);
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      const order = compareNumbers(left.getValue(), right.getValue());
+      return new NumberExpression(testComparison(this.operator, order) ? 1 : 0);
+    }
+    return new ComparisonExpression(this.operator, left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} ${
+      this.operator
+    } ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：逻辑与（短路求值）
+ */
+class AndExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const result =
+      isTruthy(this.left.evaluate(context), arithmetic) &&
+      isTruthy(this.right.evaluate(context), arithmetic);
+    return fromBoolean(result, arithmetic);
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) => {
+      const leftValue = left(bindings, context);
+      if (leftValue === 0 || Number.isNaN(leftValue)) {
+        return 0;
+      }
+      const rightValue = right(bindings, context);
+      return rightValue === 0 || Number.isNaN(rightValue) ? 0 : 1;
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(0);
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      return new NumberExpression(
+        isTruthyNumber(left.getValue()) && isTruthyNumber(right.getValue())
+          ? 1
+          : 0
+      );
+    }
+    return new AndExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} && ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：逻辑或（短路求值）
+ */
+class OrExpression extends AbstractExpression {
+  private left: AbstractExpression;
+  private right: AbstractExpression;
+
+  constructor(left: AbstractExpression, right: AbstractExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    const result =
+      isTruthy(this.left.evaluate(context), arithmetic) ||
+      isTruthy(this.right.evaluate(context), arithmetic);
+    return fromBoolean(result, arithmetic);
+  }
+
+  compile(): CompiledNode {
+    const left = this.left.compile();
+    const right = this.right.compile();
+    return (bindings, context) => {
+      const leftValue = left(bindings, context);
+      if (leftValue !== 0 && !Number.isNaN(leftValue)) {
+        return 1;
+      }
+      const rightValue = right(bindings, context);
+      return rightValue !== 0 && !Number.isNaN(rightValue) ? 1 : 0;
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.left.collectVariables(bound, result);
+    this.right.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(0);
+  }
+
+  simplify(): AbstractExpression {
+    const left = this.left.simplify();
+    const right = this.right.simplify();
+    if (isNumber(left) && isNumber(right)) {
+      return new NumberExpression(
+        isTruthyNumber(left.getValue()) || isTruthyNumber(right.getValue())
+          ? 1
+          : 0
+      );
+    }
+    return new OrExpression(left, right);
+  }
+
+  toString(): string {
+    return `(${this.left.toString()} || ${this.right.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：逻辑非
+ */
+class NotExpression extends AbstractExpression {
+  private operand: AbstractExpression;
+
+  constructor(operand: AbstractExpression) {
+    super();
+    this.operand = operand;
+  }
+
+  evaluate(context: Context): Numeric {
+    const arithmetic = context.getArithmetic();
+    return fromBoolean(
+      !isTruthy(this.operand.evaluate(context), arithmetic),
+      arithmetic
+    );
+  }
+
+  compile(): CompiledNode {
+    const operand = this.operand.compile();
+    return (bindings, context) =>
+      isTruthyNumber(operand(bindings, context)) ? 0 : 1;
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.operand.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new NumberExpression(0);
+  }
+
+  simplify(): AbstractExpression {
+    const operand = this.operand.simplify();
+    if (isNumber(operand)) {
+      return new NumberExpression(isTruthyNumber(operand.getValue()) ? 0 : 1);
+    }
+    return new NotExpression(operand);
+  }
+
+  toString(): string {
+    return `(!${this.operand.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：条件 cond ? a : b，只对选中的分支求值
+ */
+class ConditionalExpression extends AbstractExpression {
+  private condition: AbstractExpression;
+  private consequent: AbstractExpression;
+  private alternate: AbstractExpression;
+
+  constructor(
+    condition: AbstractExpression,
+    consequent: AbstractExpression,
+    alternate: AbstractExpression
+  ) {
+    super();
+    this.condition = condition;
+    this.consequent = consequent;
+    this.alternate = alternate;
+  }
+
+  evaluate(context: Context): Numeric {
+    return isTruthy(this.condition.evaluate(context), context.getArithmetic())
+      ? this.consequent.evaluate(context)
+      : this.alternate.evaluate(context);
+  }
+
+  compile(): CompiledNode {
+    const condition = this.condition.compile();
+    const consequent = this.consequent.compile();
+    const alternate = this.alternate.compile();
+    return (bindings, context) =>
+      isTruthyNumber(condition(bindings, context))
+        ? consequent(bindings, context)
+        : alternate(bindings, context);
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.condition.collectVariables(bound, result);
+    this.consequent.collectVariables(bound, result);
+    this.alternate.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    return new ConditionalExpression(
+      this.condition,
+      this.consequent.derive(variable),
+      this.alternate.derive(variable)
+    );
+  }
+
+  simplify(): AbstractExpression {
+    const condition = this.condition.simplify();
+    const consequent = this.consequent.simplify();
+    const alternate = this.alternate.simplify();
+    if (isNumber(condition)) {
+      return isTruthyNumber(condition.getValue()) ? consequent : alternate;
+    }
+    return new ConditionalExpression(condition, consequent, alternate);
+  }
+
+  toString(): string {
+    return `(${this.condition.toString()} ? ${this.consequent.toString()} : ${this.alternate.toString()})`;
+  }
+}
+
+/**
+ * 非终结符表达式：函数调用
+ */
+class FunctionCallExpression extends AbstractExpression {
+  private name: string;
+  private args: AbstractExpression[];
+
+  constructor(name: string, args: AbstractExpression[]) {
+    super();
+    this.name = name;
+    this.args = args;
+  }
+
+  evaluate(context: Context): Numeric {
+    const fn = context.getFunction(this.name);
+    checkArity(this.name, fn, this.args.length);
+    const values = this.args.map((arg) => arg.evaluate(context));
+    return fn.call(values, context);
+  }
+
+  compile(): CompiledNode {
+    const name = this.name;
+    const args = this.args.map((arg) => arg.compile());
+    return (bindings, context) => {
+      const fn = context.getFunction(name);
+      checkArity(name, fn, args.length);
+      const values = args.map((arg) => arg(bindings, context));
+      return numericToNumber(fn.call(values, context));
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.args.forEach((arg) => arg.collectVariables(bound, result));
+  }
+
+  /**
+   * 按链式法则求导，只支持标准库中可导的单参数函数
+   */
+  derive(variable: string): AbstractExpression {
+    const [arg] = this.args;
+    if (this.args.length !== 1) {
+      throw new Error(`不支持对函数 ${this.name} 求导`);
+    }
+    const inner = arg.derive(variable);
+    let outer: AbstractExpression;
+    switch (this.name) {
+      case "sin":
+        outer = new FunctionCallExpression("cos", [arg]);
+        break;
+      case "cos":
+        outer = new NegateExpression(new FunctionCallExpression("sin", [arg]));
+        break;
+      case "sqrt":
+        outer = new DivideExpression(
+          new NumberExpression(1),
+          new MultiplyExpression(new NumberExpression(2), this)
+        );
+        break;
+      case "log":
+        outer = new DivideExpression(new NumberExpression(1), arg);
+        break;
+      case "abs":
+        outer = new DivideExpression(arg, this);
+        break;
+      default:
+        throw new Error(`不支持对函数 ${this.name} 求导`);
+    }
+    return new MultiplyExpression(outer, inner);
+  }
+
+  simplify(): AbstractExpression {
+    return new FunctionCallExpression(
+      this.name,
+      this.args.map((arg) => arg.simplify())
+    );
+  }
+
+  toString(): string {
+    return `${this.name}(${this.args.map((arg) => arg.toString()).join(", ")})`;
+  }
+}
+
+/**
+ * 函数定义：f(x, y) = 表达式
+ *
+ * 求值时把函数登记到上下文中，定义语句本身的值为 0。
+ */
+class FunctionDefinitionExpression extends AbstractExpression {
+  private name: string;
+  private parameters: string[];
+  private body: AbstractExpression;
+
+  constructor(name: string, parameters: string[], body: AbstractExpression) {
+    super();
+    this.name = name;
+    this.parameters = parameters;
+    this.body = body;
+  }
+
+  evaluate(context: Context): Numeric {
+    context.defineFunction(
+      this.name,
+      new UserDefinedFunction(this.name, this.parameters, this.body, context)
+    );
+    return context.getArithmetic().fromNumber(0);
+  }
+
+  compile(): CompiledNode {
+    return (bindings, context) => this.interpret(context);
+  }
+
+  /**
+   * 函数体中的全局变量在调用时才解析（见 UserDefinedFunction），
+   * 因此可以在定义之后再赋值
+   */
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {}
+
+  derive(variable: string): AbstractExpression {
+    throw new Error("不能对函数定义求导");
+  }
+
+  simplify(): AbstractExpression {
+    return new FunctionDefinitionExpression(
+      this.name,
+      this.parameters,
+      this.body.simplify()
+    );
+  }
+
+  toString(): string {
+    return `${this.name}(${this.parameters.join(
+      ", "
+    )}) = ${this.body.toString()}`;
+  }
+}
+
+/**
+ * 赋值语句：x = 表达式 或 let x = 表达式
+ *
+ * 值写回当前上下文，语句本身的值即所赋的值。
+ */
+class AssignmentExpression extends AbstractExpression {
+  private name: string;
+  private value: AbstractExpression;
+  private declaration: boolean;
+
+  constructor(name: string, value: AbstractExpression, declaration: boolean) {
+    super();
+    this.name = name;
+    this.value = value;
+    this.declaration = declaration;
+  }
+
+  evaluate(context: Context): Numeric {
+    const value = this.value.evaluate(context);
+    context.setValue(this.name, value);
+    return value;
+  }
+
+  compile(): CompiledNode {
+    const name = this.name;
+    const value = this.value.compile();
+    return (bindings, context) => {
+      const result = value(bindings, context);
+      context.setVariable(name, result);
+      return result;
+    };
+  }
+
+  collectVariables(bound: ReadonlySet<string>, result: Set<string>): void {
+    this.value.collectVariables(bound, result);
+  }
+
+  derive(variable: string): AbstractExpression {
+    throw new Error("不能对赋值语句求导");
+  }
+
+  simplify(): AbstractExpression {
+    return new AssignmentExpression(
+      this.name,
+      this.value.simplify(),
+      this.declaration
+    );
+  }
+
+  toString(): string {
+    const prefix = this.declaration ? "let " : "";
+    return `${prefix}${this.name} = ${this.value.toString()}`;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
+
+/**
+ * 静态分析：按出现顺序列出表达式（或脚本）中的自由变量
+ *
+ * 脚本中先赋值后使用的变量不计入结果；函数体中的变量在调用时才检查，也不计入。
+ */
+function collectVariables(
+  expression: AbstractExpression | AbstractExpression[]
+): string[] {
+  const statements = Array.isArray(expression) ? expression : [expression];
+  const bound = new Set<string>();
+  const result = new Set<string>();
+  for (const statement of statements) {
+    statement.collectVariables(bound, result);
+    if (statement instanceof AssignmentExpression) {
+      bound.add(statement.getName());
+    }
+  }
+  return Array.from(result);
+}
+
+/**
+ * 符号求导：derive(x^2 + 3*x, "x")
+ */
+function derive(
+  expression: AbstractExpression,
+  variable: string
+): AbstractExpression {
+  return expression.derive(variable);
+}
+
+/**
+ * 表达式化简
+ */
+function simplify(expression: AbstractExpression): AbstractExpression {
+  return expression.simplify();
+}
+
+function isNumber(
+  expression: AbstractExpression,
+  value?: number
+): expression is NumberExpression {
+  return (
+    expression instanceof NumberExpression &&
+    (value === undefined || expression.getValue() === value)
+  );
+}
+
+function dependsOn(expression: AbstractExpression, variable: string): boolean {
+  return collectVariables(expression).includes(variable);
+}
+
+function checkArity(name: string, fn: CalculatorFunction, count: number): void {
+  if (count < fn.minArity || count > fn.maxArity) {
+    throw new Error(
+      `函数 ${name} 需要${describeArity(fn)}个参数，实际传入${count}个`
+    );
+  }
+}
+
+function describeArity(fn: CalculatorFunction): string {
+  if (fn.minArity === fn.maxArity) {
+    return `${fn.minArity}`;
+  }
+  if (fn.maxArity === Infinity) {
+    return `至少${fn.minArity}`;
+  }
+  return `${fn.minArity}~${fn.maxArity}`;
+}
+
+// =============================================================================
+// 示例1：简单计算器解释器
+// =============================================================================
+
+/**
+ * 词法单元类型
+ */
+type TokenType = "number" | "identifier" | "operator" | "separator" | "eof";
+
+/**
+ * 词法单元，line 与 column 均从1开始
+ */
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 语法错误：记录出错的词法单元及其行列号
+ *
+ * 给出 expected 时在消息中列出此处可以接受的内容；给出源码时附上出错的那一行，
+ * 并用 ^ 指出出错的列。
+ */
+class ParseError extends Error {
+  readonly token: string;
+  readonly line: number;
+  readonly column: number;
+  readonly expected: string[];
+
+  constructor(
+    message: string,
+    token: string,
+    line: number,
+    column: number,
+    expected: string[] = [],
+    source?: string
+  ) {
+    let text = `${message}（第${line}行第${column}列，遇到${token}）`;
+    if (expected.length > 0) {
+      text += `\n期望：${expected.join("、")}`;
+    }
+    if (source !== undefined) {
+      text += `\n${formatSourceSnippet(source, line, column)}`;
+    }
+    super(text);
+    this.name = "ParseError";
+    this.token = token;
+    this.line = line;
+    this.column = column;
+    this.expected = expected;
+  }
+}
+
+/**
+ * 源码中第 line 行的内容，下一行用 ^ 标出第 column 列；
+ * 制表符原样保留，使 ^ 在终端中也能对齐
+ */
+function formatSourceSnippet(
+  source: string,
+  line: number,
+  column: number
+): string {
+  const text = source.split("\n")[line - 1] ?? "";
+  const gutter = String(line);
+  const padding = text.slice(0, column - 1).replace(/[^\t]/g, " ");
+  return (
+    `${gutter} | ${text.replace(/\r$/, "")}\n` +
+    `${" ".repeat(gutter.length)} | ${padding}^`
+  );
+}
+
+/**
+ * 表达式词法分析器
+ *
+ * 只有分析脚本（script 为 true）时才产生语句分隔符：分号总是分隔符；换行只在
+ * 括号外、上一个词法单元不是二元运算符或逗号、且下一行不以只能出现在表达式中间
+ * 的运算符（如 *、&&、?）开头时才作为分隔符，因此表达式可以在运算符前后或括号内
+ * 换行续写。分析单个表达式时换行与空格相同。
+ */
+class ExpressionTokenizer {
+  private static readonly NUMBER = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/;
+  private static readonly IDENTIFIER = /^[A-Za-z_]\w*/;
+  // 多字符运算符排在前面，保证最长匹配
+  private static readonly OPERATORS = [
+    "==",
+    "!=",
+    "<=",
+    ">=",
+    "&&",
+    "||",
+    "<",
+    ">",
+    "!",
+    "?",
+    ":",
+    "+",
+    "-",
+    "*",
+    "/",
+    "%",
+    "^",
+    "(",
+    ")",
+    ",",
+    "=",
+  ];
+
+  // 出现在行首时表示接着上一行的运算符
+  private static readonly CONTINUATIONS = [
+    "==",
+    "!=",
+    "<=",
+    ">=",
+    "&&",
+    "||",
+    "<",
+    ">",
+    "?",
+    ":",
+    "*",
+    "/",
+    "%",
+    "^",
+    ")",
+    ",",
+  ];
+
+  tokenize(source: string, script: boolean = false): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    let line = 1;
+    let lineStart = 0;
+    let depth = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+      const column = position - lineStart + 1;
+
+      if (char === "\n") {
+        if (
+          script &&
+          depth === 0 &&
+          this.endsStatement(tokens) &&
+          !this.continuesExpression(source, position + 1)
+        ) {
+          tokens.push({ type: "separator", value: "\n", line, column });
+        }
+        position++;
+        line++;
+        lineStart = position;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      if (char === ";" && script) {
+        tokens.push({ type: "separator", value: char, line, column });
+        position++;
+        continue;
+      }
+
+      const rest = source.slice(position);
+      const numberMatch = rest.match(ExpressionTokenizer.NUMBER);
+      if (numberMatch) {
+        // 数字后紧跟字母（如 2x、1e）视为非法数字
+        const next = rest[numberMatch[0].length];
+        if (next !== undefined && /[A-Za-z_.]/.test(next)) {
+          throw new ParseError(
+            "非法的数字字面量",
+            `"${rest.slice(0, numberMatch[0].length + 1)}"`,
+            line,
+            column
+          );
+        }
+        tokens.push({ type: "number", value: numberMatch[0], line, column });
+        position += numberMatch[0].length;
+        continue;
+      }
+
+      const identifierMatch = rest.match(ExpressionTokenizer.IDENTIFIER);
+      if (identifierMatch) {
+        tokens.push({
+          type: "identifier",
+          value: identifierMatch[0],
+          line,
+          column,
+        });
+        position += identifierMatch[0].length;
+        continue;
+      }
+
+      const operator = ExpressionTokenizer.OPERATORS.find((op) =>
+        rest.startsWith(op)
+      );
+      if (operator) {
+        if (operator === "(") {
+          depth++;
+        } else if (operator === ")" && depth > 0) {
+          depth--;
+        }
+        tokens.push({ type: "operator", value: operator, line, column });
+        position += operator.length;
+        continue;
+      }
+
+      throw new ParseError("无法识别的字符", `"${char}"`, line, column);
+    }
+
+    tokens.push({
+      type: "eof",
+      value: "",
+      line,
+      column: position - lineStart + 1,
+    });
+    return tokens;
+  }
+
+  private endsStatement(tokens: Token[]): boolean {
+    const last = tokens[tokens.length - 1];
+    if (!last || last.type === "separator") {
+      return false;
+    }
+    return last.type !== "operator" || last.value === ")";
+  }
+
+  private continuesExpression(source: string, position: number): boolean {
+    const next = source.slice(position).replace(/^\s+/, "");
+    return ExpressionTokenizer.CONTINUATIONS.some((op) => next.startsWith(op));
+  }
+}
+
+/**
+ * 递归下降语法分析器
+ *
+ * 文法（优先级由低到高）：
+ *   script         := statement (SEPARATOR statement)*
+ *   statement      := declaration | definition | assignment | expression
+ *   declaration    := "let" IDENTIFIER "=" expression
+ *   assignment     := IDENTIFIER "=" expression
+ *   definition     := IDENTIFIER "(" (IDENTIFIER ("," IDENTIFIER)*)? ")" "=" expression
+ *   expression     := conditional
+ *   conditional    := logicalOr ("?" expression ":" conditional)?
+ *   logicalOr      := logicalAnd ("||" logicalAnd)*
+ *   logicalAnd     := equality ("&&" equality)*
+ *   equality       := relational (("==" | "!=") relational)*
+ *   relational     := additive (("<" | "<=" | ">" | ">=") additive)*
+ *   additive       := multiplicative (("+" | "-") multiplicative)*
+ *   multiplicative := unary (("*" | "/" | "%") unary)*
+ *   unary          := ("+" | "-" | "!") unary | power
+ *   power          := primary ("^" unary)?
+ *   primary        := NUMBER | call | IDENTIFIER | "(" expression ")"
+ *   call           := IDENTIFIER "(" (expression ("," expression)*)? ")"
+ *
+ * 乘方右结合且优先级高于一元负号，因此 -2^2 = -(2^2)，2^-1 = 2^(-1)。
+ * 条件表达式右结合：a ? b : c ? d : e = a ? b : (c ? d : e)。
+ */
+class ExpressionParser {
+  private tokens: Token[];
+  private current: number = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * 解析单条语句
+   */
+  parse(): AbstractExpression {
+    this.skipSeparators();
+    const statement = this.parseStatement();
+    this.skipSeparators();
+    if (this.peek().type !== "eof") {
+      this.error("多余的内容");
+    }
+    return statement;
+  }
+
+  /**
+   * 解析由分号或换行分隔的多条语句
+   */
+  parseScript(): AbstractExpression[] {
+    const statements: AbstractExpression[] = [];
+    this.skipSeparators();
+    while (this.peek().type !== "eof") {
+      statements.push(this.parseStatement());
+      if (this.peek().type !== "eof" && this.peek().type !== "separator") {
+        this.error("语句之间缺少分号或换行");
+      }
+      this.skipSeparators();
+    }
+    return statements;
+  }
+
+  private parseStatement(): AbstractExpression {
+    return (
+      this.tryParseDeclaration() ||
+      this.tryParseFunctionDefinition() ||
+      this.tryParseAssignment() ||
+      this.parseExpression()
+    );
+  }
+
+  private tryParseDeclaration(): AbstractExpression | null {
+    const keyword = this.peek();
+    const name = this.tokens[this.current + 1];
+    if (
+      keyword.type !== "identifier" ||
+      keyword.value !== "let" ||
+      name.type !== "identifier"
+    ) {
+      return null;
+    }
+    this.advance();
+    this.advance();
+    if (!this.matchOperator("=")) {
+      this.error("let 声明缺少等号");
+    }
+    return new AssignmentExpression(name.value, this.parseExpression(), true);
+  }
+
+  private tryParseAssignment(): AbstractExpression | null {
+    const name = this.peek();
+    const next = this.tokens[this.current + 1];
+    if (
+      name.type !== "identifier" ||
+      next.type !== "operator" ||
+      next.value !== "="
+    ) {
+      return null;
+    }
+    this.advance();
+    this.advance();
+    return new AssignmentExpression(name.value, this.parseExpression(), false);
+  }
+
+  /**
+   * 向前看判断是否为函数定义，不是则回退到起始位置
+   */
+  private tryParseFunctionDefinition(): AbstractExpression | null {
+    const start = this.current;
+    const name = this.peek();
+    if (name.type !== "identifier") {
+      return null;
+    }
+    this.advance();
+    if (!this.matchOperator("(")) {
+      this.current = start;
+      return null;
+    }
+
+    const parameters: string[] = [];
+    if (!this.matchOperator(")")) {
+      do {
+        const param = this.peek();
+        if (param.type !== "identifier") {
+          this.current = start;
+          return null;
+        }
+        this.advance();
+        parameters.push(param.value);
+      } while (this.matchOperator(","));
+      if (!this.matchOperator(")")) {
+        this.current = start;
+        return null;
+      }
+    }
+
+    if (!this.matchOperator("=")) {
+      this.current = start;
+      return null;
+    }
+
+    const duplicate = parameters.find(
+      (param, index) => parameters.indexOf(param) !== index
+    );
+    if (duplicate) {
+      throw new ParseError(
+        "重复的参数名",
+        `"${duplicate}"`,
+        name.line,
+        name.column
+      );
+    }
+
+    const body = this.parseExpression();
+    return new FunctionDefinitionExpression(name.value, parameters, body);
+  }
+
+  private parseExpression(): AbstractExpression {
+    return this.parseConditional();
+  }
+
+  private parseConditional(): AbstractExpression {
+    const condition = this.parseLogicalOr();
+    if (!this.matchOperator("?")) {
+      return condition;
+    }
+    const consequent = this.parseExpression();
+    if (!this.matchOperator(":")) {
+      this.error("条件表达式缺少冒号");
+    }
+    const alternate = this.parseConditional();
+    return new ConditionalExpression(condition, consequent, alternate);
+  }
+
+  private parseLogicalOr(): AbstractExpression {
+    let left = this.parseLogicalAnd();
+    while (this.matchOperator("||")) {
+      left = new OrExpression(left, this.parseLogicalAnd());
+    }
+    return left;
+  }
+
+  private parseLogicalAnd(): AbstractExpression {
+    let left = this.parseEquality();
+    while (this.matchOperator("&&")) {
+      left = new AndExpression(left, this.parseEquality());
+    }
+    return left;
+  }
+
+  private parseEquality(): AbstractExpression {
+    let left = this.parseRelational();
+    while (this.matchOperator("==", "!=")) {
+      const operator = this.previous().value as ComparisonOperator;
+      left = new ComparisonExpression(operator, left, this.parseRelational());
+    }
+    return left;
+  }
+
+  private parseRelational(): AbstractExpression {
+    let left = this.parseAdditive();
+    while (this.matchOperator("<", "<=", ">", ">=")) {
+      const operator = this.previous().value as ComparisonOperator;
+      left = new ComparisonExpression(operator, left, this.parseAdditive());
+    }
+    return left;
+  }
+
+  private parseAdditive(): AbstractExpression {
+    let left = this.parseMultiplicative();
+    while (this.matchOperator("+", "-")) {
+      const operator = this.previous().value;
+      const right = this.parseMultiplicative();
+      left =
+        operator === "+"
+          ? new AddExpression(left, right)
+          : new SubtractExpression(left, right);
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): AbstractExpression {
+    let left = this.parseUnary();
+    while (this.matchOperator("*", "/", "%")) {
+      const operator = this.previous().value;
+      const right = this.parseUnary();
+      if (operator === "*") {
+        left = new MultiplyExpression(left, right);
+      } else if (operator === "/") {
+        left = new DivideExpression(left, right);
+      } else {
+        left = new ModuloExpression(left, right);
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): AbstractExpression {
+    if (this.matchOperator("-")) {
+      return new NegateExpression(this.parseUnary());
+    }
+    if (this.matchOperator("+")) {
+      return this.parseUnary();
+    }
+    if (this.matchOperator("!")) {
+      return new NotExpression(this.parseUnary());
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): AbstractExpression {
+    const base = this.parsePrimary();
+    if (this.matchOperator("^")) {
+      return new PowerExpression(base, this.parseUnary());
+    }
+    return base;
+  }
+
+  private parsePrimary(): AbstractExpression {
+    const token = this.peek();
+
+    if (token.type === "number") {
+      this.advance();
+      return new NumberExpression(parseFloat(token.value), token.value);
+    }
+
+    if (token.type === "identifier") {
+      this.advance();
+      if (this.matchOperator("(")) {
+        return new FunctionCallExpression(token.value, this.parseArguments());
+      }
+      return new VariableExpression(token.value);
+    }
+
+    if (this.matchOperator("(")) {
+      const expression = this.parseExpression();
+      if (!this.matchOperator(")")) {
+        this.error("缺少右括号");
+      }
+      return expression;
+    }
+
+    return this.error("期望数字、变量或左括号");
+  }
+
+  private parseArguments(): AbstractExpression[] {
+    const args: AbstractExpression[] = [];
+    if (this.matchOperator(")")) {
+      return args;
+    }
+    do {
+      args.push(this.parseExpression());
+    } while (this.matchOperator(","));
+    if (!this.matchOperator(")")) {
+      this.error("函数参数列表缺少右括号");
+    }
+    return args;
+  }
+
+  private skipSeparators(): void {
+    while (this.peek().type === "separator") {
+      this.advance();
+    }
+  }
+
+  private matchOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && operators.includes(token.value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.current];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.current - 1];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.current];
+    if (token.type !== "eof") {
+      this.current++;
+    }
+    return token;
+  }
+
+  private error(message: string): never {
+    const token = this.peek();
+    let display = `"${token.value}"`;
+    if (token.type === "eof") {
+      display = "表达式结尾";
+    } else if (token.value === "\n") {
+      display = "换行";
+    }
+    throw new ParseError(message, display, token.line, token.column);
+  }
+}
+
+/**
+ * 脚本执行结果：每条语句的值，以及最后一条语句的值
+ */
+interface ScriptResult {
+  statements: { statement: AbstractExpression; value: number }[];
+  value: number | undefined;
+}
+
+/**
+ * 编译后的表达式：只解析一次，可以对不同的变量绑定反复求值
+ */
+class CompiledExpression {
+  readonly source: string;
+  readonly variables: string[];
+  private ast: AbstractExpression;
+  private evaluator: CompiledNode;
+  private context: Context;
+
+  constructor(source: string, ast: AbstractExpression, context: Context) {
+    this.source = source;
+    this.ast = ast;
+    this.variables = collectVariables(ast);
+    this.evaluator = ast.compile();
+    this.context = context;
+  }
+
+  evaluate(bindings: Bindings = {}): number {
+    if (this.context.isStrict()) {
+      this.context.checkVariables(
+        this.variables.filter((name) => typeof bindings[name] !== "number")
+      );
+    }
+    if (this.context.getNumericMode() !== "float") {
+      // 编译得到的闭包只针对浮点模式，精确模式下回退到解释执行
+      return this.ast.interpret(this.context.createBindingScope(bindings));
+    }
+    return this.evaluator(bindings, this.context);
+  }
+}
+
+/**
+ * 计算器解释器
+ *
+ * 解析结果按源文本缓存，重复求值同一表达式时不再重新分词和解析。
+ */
+class Calculator {
+  private static readonly MAX_CACHE_SIZE = 500;
+
+  private context: Context;
+  private tokenizer: ExpressionTokenizer;
+  private parseCache: Map<string, AbstractExpression> = new Map();
+
+  constructor() {
+    this.context = new Context();
+    this.tokenizer = new ExpressionTokenizer();
+  }
+
+  setVariable(name: string, value: number): void {
+    this.context.setVariable(name, value);
+  }
+
+  registerFunction(
+    name: string,
+    implementation: (...args: number[]) => number,
+    minArity?: number,
+    maxArity?: number
+  ): void {
+    this.context.registerFunction(name, implementation, minArity, maxArity);
+  }
+
+  setStrict(strict: boolean): void {
+    this.context.setStrict(strict);
+  }
+
+  setNumericMode(mode: NumericMode, scale?: number): void {
+    this.context.setNumericMode(mode, scale);
+  }
+
+  evaluate(expression: string): number {
+    const ast = this.parse(expression);
+    this.context.checkVariables(collectVariables(ast));
+    return ast.interpret(this.context);
+  }
+
+  /**
+   * 按当前数值模式求值，返回未转换为浮点数的结果（如 Rational、FixedDecimal）
+   */
+  evaluateExact(expression: string): Numeric {
+    const ast = this.parse(expression);
+    this.context.checkVariables(collectVariables(ast));
+    return ast.evaluate(this.context);
+  }
+
+  /**
+   * 依次执行脚本中的每条语句，赋值会写回计算器的上下文
+   */
+  evaluateScript(script: string): ScriptResult {
+    const tokens = this.tokenizer.tokenize(script, true);
+    const statements = new ExpressionParser(tokens).parseScript();
+    this.context.checkVariables(collectVariables(statements));
+    const results = statements.map((statement) => ({
+      statement,
+      value: statement.interpret(this.context),
+    }));
+    return {
+      statements: results,
+      value: results.length > 0 ? results[results.length - 1].value : undefined,
+    };
+  }
+
+  /**
+   * 编译表达式，返回的求值器应在循环外保存并复用
+   */
+  compile(expression: string): CompiledExpression {
+    return new CompiledExpression(
+      expression,
+      this.parse(expression),
+      this.context
+    );
+  }
+
+  parse(expression: string): AbstractExpression {
+    const cached = this.parseCache.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    const tokens = this.tokenizer.tokenize(expression);
+    const ast = new ExpressionParser(tokens).parse();
+    if (this.parseCache.size >= Calculator.MAX_CACHE_SIZE) {
+      // 淘汰最早加入的条目
+      const oldest = this.parseCache.keys().next().value as string;
+      this.parseCache.delete(oldest);
+    }
+    this.parseCache.set(expression, ast);
+    return ast;
+  }
+
+  clearCache(): void {
+    this.parseCache.clear();
+  }
+
+  getContext(): Context {
+    return this.context;
+  }
+}
+
+/**
+ * 基准测试：比较同一公式在多组变量绑定下的三种求值方式
+ *
+ * 1. 每次重新分词、解析再解释执行（缓存之前 evaluate 的做法）
+ * 2. 复用语法树，逐节点调用 interpret
+ * 3. 使用 compile 得到的闭包
+ */
+function benchmarkCompiledExpression(
+  expression: string = "price * qty * (1 - discount) + max(fee, price * 0.05) ^ 2",
+  iterations: number = 100000
+): { reparseMs: number; interpretMs: number; compiledMs: number } {
+  const bindings = Array.from({ length: 100 }, (_, i) => ({
+    price: 10 + i,
+    qty: (i % 7) + 1,
+    discount: (i % 5) / 10,
+    fee: i % 3,
+  }));
+
+  const measure = (run: (binding: Bindings) => number): number => {
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      run(bindings[i % bindings.length]);
+    }
+    return performance.now() - start;
+  };
+
+  const tokenizer = new ExpressionTokenizer();
+  const context = new Context();
+  const applyBindings = (binding: Bindings): void => {
+    Object.keys(binding).forEach((name) =>
+      context.setVariable(name, binding[name])
+    );
+  };
+
+  const reparseMs = measure((binding) => {
+    applyBindings(binding);
+    const ast = new ExpressionParser(tokenizer.tokenize(expression)).parse();
+    return ast.interpret(context);
+  });
+
+  const ast = new ExpressionParser(tokenizer.tokenize(expression)).parse();
+  const interpretMs = measure((binding) => {
+    applyBindings(binding);
+    return ast.interpret(context);
+  });
+
+  const compiled = new CompiledExpression(expression, ast, context);
+  const compiledMs = measure((binding) => compiled.evaluate(binding));
+
+  return { reparseMs, interpretMs, compiledMs };
+}
+
+// =============================================================================
+// 示例2：SQL查询解释器
+// =============================================================================
+
+/**
+ * 列类型
+ */
+type SQLColumnType = "INT" | "REAL" | "TEXT" | "BOOLEAN";
+
+/**
+ * CREATE TABLE 中的列定义
+ */
+interface ColumnDefinition {
+  name: string;
+  type: SQLColumnType;
+  notNull: boolean;
+  unique: boolean;
+  primaryKey: boolean;
+}
+
+/**
+ * 表结构：负责插入、更新时的类型转换和约束检查
+ */
+class TableSchema {
+  // 类型名及其同义词
+  private static readonly TYPE_NAMES: Record<string, SQLColumnType> = {
+    INT: "INT",
+    INTEGER: "INT",
+    REAL: "REAL",
+    FLOAT: "REAL",
+    DOUBLE: "REAL",
+    NUMERIC: "REAL",
+    TEXT: "TEXT",
+    VARCHAR: "TEXT",
+    CHAR: "TEXT",
+    BOOLEAN: "BOOLEAN",
+    BOOL: "BOOLEAN",
+  };
+
+  private columns: ColumnDefinition[];
+  // PRIMARY KEY 和 UNIQUE 列上已有的非 NULL 值，由 SQLContext 随表数据同步维护
+  private keys: Map<string, Set<any>> = new Map();
+
+  constructor(columns: ColumnDefinition[]) {
+    const names = new Set<string>();
+    columns.forEach(({ name }) => {
+      if (names.has(name)) {
+        throw new Error(`重复的列名: ${name}`);
+      }
+      names.add(name);
+    });
+    if (columns.filter((column) => column.primaryKey).length > 1) {
+      throw new Error("一张表只能有一个主键");
+    }
+    this.columns = columns;
+    columns
+      .filter((column) => column.unique || column.primaryKey)
+      .forEach(({ name }) => this.keys.set(name, new Set()));
+  }
+
+  /**
+   * 把类型名（不区分大小写，支持 INTEGER、VARCHAR 等同义词）转换为列类型
+   */
+  static resolveType(name: string): SQLColumnType | undefined {
+    return TableSchema.TYPE_NAMES[name.toUpperCase()];
+  }
+
+  getColumns(): ColumnDefinition[] {
+    return this.columns;
+  }
+
+  getColumnNames(): string[] {
+    return this.columns.map((column) => column.name);
+  }
+
+  hasColumn(name: string): boolean {
+    return this.columns.some((column) => column.name === name);
+  }
+
+  /**
+   * 按表结构生成一行：转换类型、未给出的列补 NULL、检查 NOT NULL
+   */
+  createRow(values: any): any {
+    Object.keys(values).forEach((name) => {
+      if (!this.hasColumn(name)) {
+        throw new Error(`未知的列: ${name}`);
+      }
+    });
+    const row: any = {};
+    this.columns.forEach((column) => {
+      const value = this.coerce(column, values[column.name]);
+      if (isNull(value) && (column.notNull || column.primaryKey)) {
+        throw new Error(`列 ${column.name} 不能为 NULL`);
+      }
+      row[column.name] = value;
+    });
+    return row;
+  }
+
+  /**
+   * 检查 UNIQUE 和 PRIMARY KEY 约束，NULL 不参与唯一性比较。
+   * rows 是要写入的行，replaced 是这些行将要替换掉的已有行（UPDATE 时），
+   * 只和已有的键比较，不扫描整张表。
+   */
+  checkUnique(rows: any[], replaced: any[] = []): void {
+    this.keys.forEach((keys, name) => {
+      const released = new Set(replaced.map((row) => row[name]));
+      const seen = new Set<any>();
+      rows.forEach((row) => {
+        const value = row[name];
+        if (isNull(value)) {
+          return;
+        }
+        if (seen.has(value) || (keys.has(value) && !released.has(value))) {
+          throw new Error(`列 ${name} 的值重复: ${value}`);
+        }
+        seen.add(value);
+      });
+    });
+  }
+
+  addKeys(rows: any[]): void {
+    this.keys.forEach((keys, name) =>
+      rows.forEach((row) => {
+        if (!isNull(row[name])) {
+          keys.add(row[name]);
+        }
+      })
+    );
+  }
+
+  /**
+   * 移除行的键，必须在修改行之前调用
+   */
+  removeKeys(rows: any[]): void {
+    this.keys.forEach((keys, name) =>
+      rows.forEach((row) => keys.delete(row[name]))
+    );
+  }
+
+  rebuildKeys(rows: any[]): void {
+    this.keys.forEach((keys) => keys.clear());
+    this.addKeys(rows);
+  }
+
+  /**
+   * 把与列比较的常量转换为列的类型，如 INT 列上的 '3' 转换为 3，无法转换时
+   * 抛出错误。INT 列可以和小数比较。
+   */
+  coerceOperand(name: string, value: any): any {
+    const column = this.columns.find((column) => column.name === name);
+    if (!column) {
+      return value;
+    }
+    return this.coerce(
+      column,
+      value,
+      column.type === "INT" ? "REAL" : column.type
+    );
+  }
+
+  private coerce(
+    column: ColumnDefinition,
+    value: any,
+    type: SQLColumnType = column.type
+  ): any {
+    if (isNull(value)) {
+      return null;
+    }
+    const fail = (): never => {
+      throw new Error(
+        `无法把 ${JSON.stringify(value)} 转换为列 ${column.name} 的类型 ${
+          column.type
+        }`
+      );
+    };
+    // 空白字符串不视为数字
+    const number =
+      typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    switch (type) {
+      case "INT":
+        return Number.isInteger(number) ? number : fail();
+      case "REAL":
+        return typeof number === "number" && isFinite(number) ? number : fail();
+      case "TEXT":
+        return typeof value === "object" ? fail() : String(value);
+      case "BOOLEAN":
+        if (value === true || value === 1 || value === "true") {
+          return true;
+        }
+        if (value === false || value === 0 || value === "false") {
+          return false;
+        }
+        return fail();
+    }
+  }
+}
+
+type IndexKind = "HASH" | "SORTED";
+
+/**
+ * 索引抽象类：只索引非 NULL 值，由 SQLContext 在 SQL 语句修改表时同步维护
+ */
+abstract class SQLIndex {
+  protected name: string;
+  protected table: string;
+  protected column: string;
+
+  constructor(name: string, table: string, column: string) {
+    this.name = name;
+    this.table = table;
+    this.column = column;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getTable(): string {
+    return this.table;
+  }
+
+  getColumn(): string {
+    return this.column;
+  }
+
+  rebuild(rows: any[]): void {
+    this.clear();
+    this.addRows(rows);
+  }
+
+  addRows(rows: any[]): void {
+    rows.forEach((row) => this.add(row));
+  }
+
+  removeRows(rows: any[]): void {
+    rows.forEach((row) => this.remove(row));
+  }
+
+  abstract getKind(): IndexKind;
+
+  abstract clear(): void;
+
+  abstract add(row: any): void;
+
+  /**
+   * 移除行，必须在修改行中被索引的列之前调用
+   */
+  abstract remove(row: any): void;
+
+  /**
+   * 查找列值等于 value 的行
+   */
+  abstract lookup(value: any): any[];
+}
+
+/**
+ * 哈希索引：适用于等值查询
+ */
+class HashIndex extends SQLIndex {
+  private buckets: Map<any, Set<any>> = new Map();
+
+  getKind(): IndexKind {
+    return "HASH";
+  }
+
+  clear(): void {
+    this.buckets = new Map();
+  }
+
+  add(row: any): void {
+    const value = row[this.column];
+    if (isNull(value)) {
+      return;
+    }
+    if (!this.buckets.has(value)) {
+      this.buckets.set(value, new Set());
+    }
+    this.buckets.get(value)!.add(row);
+  }
+
+  remove(row: any): void {
+    const bucket = this.buckets.get(row[this.column]);
+    if (bucket) {
+      bucket.delete(row);
+      if (bucket.size === 0) {
+        this.buckets.delete(row[this.column]);
+      }
+    }
+  }
+
+  lookup(value: any): any[] {
+    return Array.from(this.buckets.get(value) || []);
+  }
+}
+
+/**
+ * 索引范围，省略的一端不受限制
+ */
+interface IndexRange {
+  low?: any;
+  lowInclusive?: boolean;
+  high?: any;
+  highInclusive?: boolean;
+}
+
+/**
+ * 有序索引：按 compareSQLValues 排序，适用于等值查询和范围查询
+ */
+class SortedIndex extends SQLIndex {
+  private entries: { value: any; row: any }[] = [];
+
+  getKind(): IndexKind {
+    return "SORTED";
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * 一次性排序，避免逐行插入的 O(n²) 开销
+   */
+  rebuild(rows: any[]): void {
+    this.entries = this.sortedEntries(rows);
+  }
+
+  /**
+   * 批量插入时先排序新行，再与已有条目归并
+   */
+  addRows(rows: any[]): void {
+    if (rows.length <= 1) {
+      super.addRows(rows);
+      return;
+    }
+    const added = this.sortedEntries(rows);
+    const merged: { value: any; row: any }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this.entries.length || j < added.length) {
+      if (
+        j >= added.length ||
+        (i < this.entries.length &&
+          compareSQLValues(this.entries[i].value, added[j].value) <= 0)
+      ) {
+        merged.push(this.entries[i++]);
+      } else {
+        merged.push(added[j++]);
+      }
+    }
+    this.entries = merged;
+  }
+
+  /**
+   * 批量删除时一次过滤，避免逐条 splice
+   */
+  removeRows(rows: any[]): void {
+    if (rows.length <= 1) {
+      super.removeRows(rows);
+      return;
+    }
+    const removed = new Set(rows);
+    this.entries = this.entries.filter((entry) => !removed.has(entry.row));
+  }
+
+  add(row: any): void {
+    const value = row[this.column];
+    if (!isNull(value)) {
+      this.entries.splice(this.upperBound(value), 0, { value, row });
+    }
+  }
+
+  remove(row: any): void {
+    const value = row[this.column];
+    if (isNull(value)) {
+      return;
+    }
+    for (let i = this.lowerBound(value); i < this.entries.length; i++) {
+      if (compareSQLValues(this.entries[i].value, value) !== 0) {
+        return;
+      }
+      if (this.entries[i].row === row) {
+        this.entries.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  lookup(value: any): any[] {
+    return isNull(value)
+      ? []
+      : this.range({
+          low: value,
+          lowInclusive: true,
+          high: value,
+          highInclusive: true,
+        });
+  }
+
+  range({ low, lowInclusive, high, highInclusive }: IndexRange): any[] {
+    const start = isNull(low)
+      ? 0
+      : lowInclusive
+      ? this.lowerBound(low)
+      : this.upperBound(low);
+    const end = isNull(high)
+      ? this.entries.length
+      : highInclusive
+      ? this.upperBound(high)
+      : this.lowerBound(high);
+    return this.entries.slice(start, end).map((entry) => entry.row);
+  }
+
+  /**
+   * 第一个值不小于 value 的位置
+   */
+  private lowerBound(value: any): number {
+    return this.search((entry) => compareSQLValues(entry, value) < 0);
+  }
+
+  /**
+   * 第一个值大于 value 的位置
+   */
+  private upperBound(value: any): number {
+    return this.search((entry) => compareSQLValues(entry, value) <= 0);
+  }
+
+  private sortedEntries(rows: any[]): { value: any; row: any }[] {
+    return rows
+      .filter((row) => !isNull(row[this.column]))
+      .map((row) => ({ value: row[this.column], row }))
+      .sort((a, b) => compareSQLValues(a.value, b.value));
+  }
+
+  private search(before: (value: any) => boolean): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (before(this.entries[middle].value)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * 用 items 原地替换数组内容（展开运算符在百万行时会超出调用栈）
+ */
+function replaceContents(target: any[], items: any[]): void {
+  target.length = 0;
+  items.forEach((item) => target.push(item));
+}
+
+/**
+ * 事务中的撤销记录，由修改数据的操作在修改之前写入，回滚时倒序撤销：
+ * table 为添加或替换表之前的表（不存在时为空），length 为插入之前的行数，
+ * rows 为删除之前表中的行，values 为修改之前行对象的值，index 为新建的索引
+ */
+type SQLUndoEntry =
+  | { kind: "table"; name: string; data?: any[]; schema?: TableSchema }
+  | { kind: "length"; table: string; length: number }
+  | { kind: "rows"; table: string; rows: any[] }
+  | { kind: "values"; table: string; row: any; values: any }
+  | { kind: "index"; name: string };
+
+/**
+ * SQL上下文
+ */
+class SQLContext {
+  private tables: Map<string, any[]> = new Map();
+  private schemas: Map<string, TableSchema> = new Map();
+  private indexes: Map<string, SQLIndex> = new Map();
+  // 进行中的事务的撤销记录，没有事务时为 undefined
+  private undoLog?: SQLUndoEntry[];
+  // COPY 可以读写的目录，未设置时不允许 COPY
+  private fileDirectory?: string;
+  // 标量表达式的算术运算和数学函数由计算器完成
+  private calculator: Context = new Context();
+
+  getCalculator(): Context {
+    return this.calculator;
+  }
+
+  /**
+   * 添加没有表结构的表，列名和类型都不做检查。
+   * 直接修改传入的数组不会更新索引，应通过 SQL 语句修改数据。
+   */
+  addTable(name: string, data: any[]): void {
+    this.record({
+      kind: "table",
+      name,
+      data: this.tables.get(name),
+      schema: this.schemas.get(name),
+    });
+    this.tables.set(name, data);
+    this.schemas.delete(name);
+    this.getIndexes(name).forEach((index) => index.rebuild(data));
+  }
+
+  /**
+   * 创建带表结构的空表
+   */
+  createTable(name: string, schema: TableSchema): void {
+    if (this.tables.has(name)) {
+      throw new Error(`表已存在: ${name}`);
+    }
+    this.record({ kind: "table", name });
+    this.tables.set(name, []);
+    this.schemas.set(name, schema);
+  }
+
+  getSchema(name: string): TableSchema | undefined {
+    return this.schemas.get(name);
+  }
+
+  setFileDirectory(directory: string): void {
+    this.fileDirectory = fs.realpathSync(directory);
+  }
+
+  /**
+   * 把 COPY 中的路径解析为文件目录下的路径（相对路径相对于文件目录）。
+   * 目录之外的路径，包括经由 .. 或符号链接离开目录的路径，都会被拒绝。
+   */
+  resolveFile(file: string): string {
+    if (this.fileDirectory === undefined) {
+      throw new Error("没有设置 COPY 的文件目录");
+    }
+    const root = this.fileDirectory;
+    const target = resolve(root, file);
+    // 要写入的文件可能还不存在，这时检查它所在的目录
+    const real = fs.existsSync(target)
+      ? fs.realpathSync(target)
+      : fs.existsSync(dirname(target))
+      ? join(fs.realpathSync(dirname(target)), basename(target))
+      : target;
+    const inside = relative(root, real);
+    if (
+      inside === "" ||
+      inside === ".." ||
+      inside.startsWith(`..${sep}`) ||
+      isAbsolute(inside)
+    ) {
+      throw new Error(`COPY 的路径不在文件目录中: ${file}`);
+    }
+    return real;
+  }
+
+  /**
+   * 向表追加行并返回行数：有表结构时转换类型并检查约束，同时更新索引。
+   * 任何一行不合法时都不会插入。
+   */
+  insertRows(name: string, rows: any[]): number {
+    const data = this.requireTable(name);
+    const schema = this.getSchema(name);
+    if (schema) {
+      rows = rows.map((row) => schema.createRow(row));
+      schema.checkUnique(rows);
+    }
+    this.record({ kind: "length", table: name, length: data.length });
+    rows.forEach((row) => data.push(row));
+    this.indexRows(name, rows);
+    return rows.length;
+  }
+
+  createIndex(index: SQLIndex): void {
+    if (this.indexes.has(index.getName())) {
+      throw new Error(`索引已存在: ${index.getName()}`);
+    }
+    index.rebuild(this.requireTable(index.getTable()));
+    this.record({ kind: "index", name: index.getName() });
+    this.indexes.set(index.getName(), index);
+  }
+
+  /**
+   * 用 updates 中的新值原地修改行，同时更新索引
+   */
+  updateRows(table: string, updates: Map<any, any>): void {
+    const rows = Array.from(updates.keys());
+    rows.forEach((row) =>
+      this.record({ kind: "values", table, row, values: { ...row } })
+    );
+    this.unindexRows(table, rows);
+    updates.forEach((updated, row) => Object.assign(row, updated));
+    this.indexRows(table, rows);
+  }
+
+  /**
+   * 从表中原地删除行，同时更新索引
+   */
+  deleteRows(table: string, rows: any[]): void {
+    const data = this.requireTable(table);
+    if (rows.length === 0) {
+      return;
+    }
+    this.record({ kind: "rows", table, rows: [...data] });
+    const removed = new Set(rows);
+    this.unindexRows(table, rows);
+    replaceContents(
+      data,
+      data.filter((row) => !removed.has(row))
+    );
+  }
+
+  getIndexes(table: string): SQLIndex[] {
+    return Array.from(this.indexes.values()).filter(
+      (index) => index.getTable() === table
+    );
+  }
+
+  /**
+   * 把新增或修改后的行加入表上的所有索引和唯一键集合
+   */
+  indexRows(table: string, rows: any[]): void {
+    this.getIndexes(table).forEach((index) => index.addRows(rows));
+    const schema = this.getSchema(table);
+    if (schema) {
+      schema.addKeys(rows);
+    }
+  }
+
+  /**
+   * 从表上的所有索引和唯一键集合中移除行，修改行之前调用
+   */
+  unindexRows(table: string, rows: any[]): void {
+    this.getIndexes(table).forEach((index) => index.removeRows(rows));
+    const schema = this.getSchema(table);
+    if (schema) {
+      schema.removeKeys(rows);
+    }
+  }
+
+  getTable(name: string): any[] {
+    return this.tables.get(name) || [];
+  }
+
+  /**
+   * 获取要修改的表，表不存在时抛出错误
+   */
+  requireTable(name: string): any[] {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`表不存在: ${name}`);
+    }
+    return table;
+  }
+
+  hasTable(name: string): boolean {
+    return this.tables.has(name);
+  }
+
+  inTransaction(): boolean {
+    return this.undoLog !== undefined;
+  }
+
+  begin(): void {
+    if (this.undoLog) {
+      throw new Error("事务已经开始，不支持嵌套事务");
+    }
+    this.undoLog = [];
+  }
+
+  commit(): void {
+    if (!this.undoLog) {
+      throw new Error("没有进行中的事务");
+    }
+    this.undoLog = undefined;
+  }
+
+  /**
+   * 倒序撤销事务中的修改，回到 begin 时的状态：表数组和行对象都原地恢复，
+   * 外部持有的引用保持有效。只重建被修改过的表的索引。
+   */
+  rollback(): void {
+    if (!this.undoLog) {
+      throw new Error("没有进行中的事务");
+    }
+    const undoLog = this.undoLog;
+    this.undoLog = undefined;
+
+    const touched = new Set<string>();
+    for (let i = undoLog.length - 1; i >= 0; i--) {
+      const entry = undoLog[i];
+      switch (entry.kind) {
+        case "table":
+          if (entry.data) {
+            this.tables.set(entry.name, entry.data);
+          } else {
+            this.tables.delete(entry.name);
+          }
+          if (entry.schema) {
+            this.schemas.set(entry.name, entry.schema);
+          } else {
+            this.schemas.delete(entry.name);
+          }
+          touched.add(entry.name);
+          break;
+        case "length":
+          this.getTable(entry.table).length = entry.length;
+          touched.add(entry.table);
+          break;
+        case "rows":
+          replaceContents(this.getTable(entry.table), entry.rows);
+          touched.add(entry.table);
+          break;
+        case "values":
+          Object.keys(entry.row).forEach((key) => delete entry.row[key]);
+          Object.assign(entry.row, entry.values);
+          touched.add(entry.table);
+          break;
+        case "index":
+          this.indexes.delete(entry.name);
+          break;
+      }
+    }
+
+    this.indexes.forEach((index) => {
+      if (touched.has(index.getTable())) {
+        index.rebuild(this.getTable(index.getTable()));
+      }
+    });
+    this.schemas.forEach((schema, name) => {
+      if (touched.has(name)) {
+        schema.rebuildKeys(this.getTable(name));
+      }
+    });
+  }
+
+  private record(entry: SQLUndoEntry): void {
+    if (this.undoLog) {
+      this.undoLog.push(entry);
+    }
+  }
+}
+
+/**
+ * SQL执行结果：SELECT 返回结果行，其他语句返回受影响的行数
+ */
+type SQLResult = any[] | number;
+
+/**
+ * SQL抽象表达式
+ */
+abstract class SQLExpression {
+  abstract interpret(context: SQLContext): SQLResult;
+}
+
+/**
+ * ORDER BY 排序项
+ */
+interface OrderByItem {
+  column: string;
+  descending: boolean;
+}
+
+/**
+ * 比较两个 SQL 值：NULL 最小，其次是数字，再次是字符串（按码点比较）
+ */
+function compareSQLValues(a: any, b: any): number {
+  const rank = (value: any): number =>
+    isNull(value) ? 0 : typeof value === "number" ? 1 : 2;
+  const rankA = rank(a);
+  const rankB = rank(b);
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+  if (rankA === 0) {
+    return 0;
+  }
+  if (rankA === 2) {
+    a = String(a);
+    b = String(b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * 聚合函数抽象表达式：对一组行计算出一个值
+ */
+abstract class AggregateExpression {
+  protected column: SQLOperand;
+  protected distinct: boolean;
+
+  /**
+   * column 为 "*" 表示 COUNT(*)，也可以是标量表达式，如 SUM(price * qty)
+   */
+  constructor(column: SQLOperand, distinct: boolean = false) {
+    this.column = column;
+    this.distinct = distinct;
+  }
+
+  abstract aggregate(rows: any[]): any;
+
+  abstract getName(): string;
+
+  /**
+   * 取出该列的非 NULL 值，DISTINCT 时去重
+   */
+  protected values(rows: any[]): any[] {
+    const values = rows
+      .map((row) => operandValue(row, this.column))
+      .filter((value) => !isNull(value));
+    return this.distinct ? Array.from(new Set(values)) : values;
+  }
+
+  /**
+   * 规范化的文本形式，同时用作分组结果行中的键，如 COUNT(DISTINCT city)
+   */
+  toString(): string {
+    const distinct = this.distinct ? "DISTINCT " : "";
+    return `${this.getName()}(${distinct}${this.column})`;
+  }
+}
+
+/**
+ * COUNT：COUNT(*) 统计行数，COUNT(col) 统计非 NULL 值个数
+ */
+class CountAggregate extends AggregateExpression {
+  aggregate(rows: any[]): number {
+    return this.column === "*" ? rows.length : this.values(rows).length;
+  }
+
+  getName(): string {
+    return "COUNT";
+  }
+}
+
+/**
+ * SUM：没有非 NULL 值时结果为 NULL
+ */
+class SumAggregate extends AggregateExpression {
+  aggregate(rows: any[]): number | null {
+    const values = this.values(rows);
+    return values.length > 0
+      ? values.reduce((sum, value) => sum + Number(value), 0)
+      : null;
+  }
+
+  getName(): string {
+    return "SUM";
+  }
+}
+
+/**
+ * AVG：没有非 NULL 值时结果为 NULL
+ */
+class AvgAggregate extends AggregateExpression {
+  aggregate(rows: any[]): number | null {
+    const values = this.values(rows);
+    return values.length > 0
+      ? values.reduce((sum, value) => sum + Number(value), 0) / values.length
+      : null;
+  }
+
+  getName(): string {
+    return "AVG";
+  }
+}
+
+/**
+ * MIN：按 ORDER BY 相同的规则比较
+ */
+class MinAggregate extends AggregateExpression {
+  aggregate(rows: any[]): any {
+    const values = this.values(rows);
+    return values.length > 0
+      ? values.reduce((min, value) =>
+          compareSQLValues(value, min) < 0 ? value : min
+        )
+      : null;
+  }
+
+  getName(): string {
+    return "MIN";
+  }
+}
+
+/**
+ * MAX：按 ORDER BY 相同的规则比较
+ */
+class MaxAggregate extends AggregateExpression {
+  aggregate(rows: any[]): any {
+    const values = this.values(rows);
+    return values.length > 0
+      ? values.reduce((max, value) =>
+          compareSQLValues(value, max) > 0 ? value : max
+        )
+      : null;
+  }
+
+  getName(): string {
+    return "MAX";
+  }
+}
+
+/**
+ * 按名称创建聚合表达式
+ */
+function createAggregate(
+  name: string,
+  column: SQLOperand,
+  distinct: boolean
+): AggregateExpression {
+  switch (name.toUpperCase()) {
+    case "COUNT":
+      return new CountAggregate(column, distinct);
+    case "SUM":
+      return new SumAggregate(column, distinct);
+    case "AVG":
+      return new AvgAggregate(column, distinct);
+    case "MIN":
+      return new MinAggregate(column, distinct);
+    case "MAX":
+      return new MaxAggregate(column, distinct);
+    default:
+      throw new Error(`未知的聚合函数: ${name}`);
+  }
+}
+
+/**
+ * SELECT 列表中的一项：列名、聚合函数或标量表达式（如 price * qty），
+ * 可带 AS 别名
+ */
+interface SelectItem {
+  expression: string | AggregateExpression | ScalarExpression;
+  alias?: string;
+}
+
+/**
+ * FROM / JOIN 中的表引用，alias 用于限定列名（如 u.name）
+ */
+interface TableReference {
+  table: string;
+  alias?: string;
+}
+
+type JoinType = "INNER" | "LEFT";
+
+/**
+ * JOIN 子句
+ */
+interface JoinClause {
+  type: JoinType;
+  table: TableReference;
+  condition: ConditionExpression;
+}
+
+/**
+ * SELECT 的可选子句
+ *
+ * aggregates 为 SELECT 列表的表达式、HAVING、ORDER BY 中引用的聚合函数；
+ * distinct 为 SELECT DISTINCT，去掉重复的结果行。
+ */
+interface SelectOptions {
+  distinct?: boolean;
+  joins?: JoinClause[];
+  orderBy?: OrderByItem[];
+  limit?: number;
+  offset?: number;
+  groupBy?: string[];
+  having?: ConditionExpression;
+  aggregates?: AggregateExpression[];
+}
+
+/**
+ * 执行计划中的一步，EXPLAIN 按执行顺序返回
+ */
+interface PlanStep {
+  operation: string;
+  detail: string;
+}
+
+/**
+ * FROM 表的访问路径：rank 越小越优先，rows 在选定后才计算
+ */
+interface AccessPath {
+  rank: number;
+  step: PlanStep;
+  rows: () => any[];
+}
+
+/**
+ * 选择表的访问路径：在 WHERE 的 AND 条件中寻找可以使用索引的等值或范围条件，
+ * 等值查询优先使用哈希索引，找不到时全表扫描。索引只用来缩小候选行，之后
+ * 仍对候选行完整地求值 WHERE 条件。索引与条件求值使用同一个比较函数
+ * compareSQLValues，因此候选行不会漏掉满足条件的行。
+ *
+ * 使用索引时，结果顺序可能与全表扫描不同。
+ */
+function planTableAccess(
+  context: SQLContext,
+  from: TableReference,
+  whereClause?: ConditionExpression
+): AccessPath {
+  const table = from.table;
+  let best: AccessPath = {
+    rank: Infinity,
+    step: { operation: "SCAN", detail: table },
+    rows: () => context.getTable(table),
+  };
+  const indexes = context.getIndexes(table);
+  if (!whereClause || indexes.length === 0) {
+    return best;
+  }
+
+  conjunctsOf(whereClause).forEach((condition) => {
+    const path = indexAccessPath(from, condition, indexes);
+    if (path && path.rank < best.rank) {
+      best = path;
+    }
+  });
+  return best;
+}
+
+function indexAccessPath(
+  from: TableReference,
+  condition: ConditionExpression,
+  indexes: SQLIndex[]
+): AccessPath | undefined {
+  if (
+    !(condition instanceof WhereExpression) &&
+    !(condition instanceof InCondition) &&
+    !(condition instanceof BetweenCondition)
+  ) {
+    return undefined;
+  }
+
+  // 只认 FROM 表自己的列，限定名需要与表名或别名一致；嵌套字段没有索引
+  let column = condition.getColumn();
+  if (typeof column !== "string") {
+    return undefined;
+  }
+  const prefix = `${qualifierOf(from)}.`;
+  if (column.startsWith(prefix)) {
+    column = column.slice(prefix.length);
+  }
+  if (column.includes(".")) {
+    return undefined;
+  }
+  const find = (kind: IndexKind) =>
+    indexes.find(
+      (index) => index.getKind() === kind && index.getColumn() === column
+    );
+  const hash = find("HASH");
+  const sorted = find("SORTED") as SortedIndex | undefined;
+  const describe = (index: SQLIndex, text: string) =>
+    `${from.table} USING ${index.getName()} (${text})`;
+
+  if (
+    condition instanceof InCondition ||
+    (condition instanceof WhereExpression && condition.getOperator() === "=")
+  ) {
+    const index = hash || sorted;
+    if (!index) {
+      return undefined;
+    }
+    const values =
+      condition instanceof InCondition
+        ? condition.getValues()
+        : [condition.getValue()];
+    const text =
+      condition instanceof InCondition
+        ? `${column} IN (${values.map(formatSQLValue).join(", ")})`
+        : `${column} = ${formatSQLValue(values[0])}`;
+    return {
+      rank: index === hash ? 0 : 1,
+      step: { operation: "INDEX LOOKUP", detail: describe(index, text) },
+      rows: () => {
+        const rows = new Set<any>();
+        values.forEach((value) =>
+          index.lookup(value).forEach((row) => rows.add(row))
+        );
+        return Array.from(rows);
+      },
+    };
+  }
+
+  if (!sorted) {
+    return undefined;
+  }
+  let range: IndexRange;
+  let text: string;
+  if (condition instanceof BetweenCondition) {
+    const [low, high] = condition.getBounds();
+    range = { low, lowInclusive: true, high, highInclusive: true };
+    text = `${column} BETWEEN ${formatSQLValue(low)} AND ${formatSQLValue(
+      high
+    )}`;
+  } else {
+    const operator = condition.getOperator();
+    const value = condition.getValue();
+    if (isNull(value)) {
+      return undefined;
+    }
+    switch (operator) {
+      case ">":
+      case ">=":
+        range = { low: value, lowInclusive: operator === ">=" };
+        break;
+      case "<":
+      case "<=":
+        range = { high: value, highInclusive: operator === "<=" };
+        break;
+      default:
+        return undefined;
+    }
+    text = `${column} ${operator} ${formatSQLValue(value)}`;
+  }
+  return {
+    rank: 2,
+    step: { operation: "INDEX RANGE SCAN", detail: describe(sorted, text) },
+    rows: () => sorted.range(range),
+  };
+}
+
+/**
+ * SELECT表达式
+ *
+ * 执行顺序：FROM / JOIN 连接 → WHERE 过滤 → GROUP BY 分组并计算聚合 → HAVING 过滤 → ORDER BY 排序
+ * → 投影 → DISTINCT 去重 → LIMIT/OFFSET 分页。分组后每组对应一个结果行，其中分组列按列名、
+ * 聚合值按规范化文本（如 COUNT(*)）、带别名的项和计算列按别名（没有别名时
+ * 按表达式文本）存放。
+ *
+ * 有 JOIN 或表别名时，参与查询的每一行都被展开成以限定名（别名.列名）为键的
+ * 行；不存在歧义的列同时保留不带限定的列名。
+ */
+class SelectExpression extends SQLExpression {
+  private items: SelectItem[];
+  private from: TableReference;
+  private whereClause?: ConditionExpression;
+  private options: SelectOptions;
+
+  constructor(
+    columns: (string | SelectItem)[],
+    table: string | TableReference,
+    whereClause?: ConditionExpression,
+    options: SelectOptions = {}
+  ) {
+    super();
+    this.items = columns.map((column) =>
+      typeof column === "string" ? { expression: column } : column
+    );
+    this.from = typeof table === "string" ? { table } : table;
+    this.whereClause = whereClause;
+    this.options = options;
+    this.validateGrouping();
+    this.validateAliases();
+  }
+
+  interpret(context: SQLContext): any[] {
+    let data = this.scan(context);
+
+    if (this.whereClause) {
+      data = data.filter((row) => this.whereClause!.evaluate(row));
+    }
+
+    if (this.isGrouped()) {
+      data = this.group(data);
+      if (this.options.having) {
+        data = data.filter((row) => this.options.having!.evaluate(row));
+      }
+    }
+
+    data = this.sort(data);
+    data = this.project(context, data);
+    if (this.options.distinct) {
+      // 缺失的列与 NULL 视为同一个值
+      const columns = tableColumns(data);
+      const seen = new Set<string>();
+      data = data.filter((row) => {
+        const key = JSON.stringify(
+          columns.map((column) => (isNull(row[column]) ? null : row[column]))
+        );
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    }
+    return this.paginate(data);
+  }
+
+  /**
+   * 投影：未分组时在此计算标量表达式，分组时取 group 中算好的值。
+   * 行中不存在的列不出现在结果中
+   */
+  private project(context: SQLContext, data: any[]): any[] {
+    if (this.items.some((item) => item.expression === "*")) {
+      return this.isQualified() ? this.projectAll(context, data) : data;
+    }
+
+    const grouped = this.isGrouped();
+    return data.map((row) => {
+      const result: any = {};
+      this.items.forEach(({ expression, alias }) => {
+        const key = alias || expression.toString();
+        let value: any;
+        if (grouped) {
+          value = row[key];
+        } else if (expression instanceof ScalarExpression) {
+          value = expression.evaluate(row);
+        } else {
+          value = lookupSQLColumn(row, expression.toString());
+        }
+        if (value !== undefined) {
+          result[key] = value;
+        }
+      });
+      return result;
+    });
+  }
+
+  private getJoins(): JoinClause[] {
+    return this.options.joins || [];
+  }
+
+  private getReferences(): TableReference[] {
+    return [this.from, ...this.getJoins().map((join) => join.table)];
+  }
+
+  private isQualified(): boolean {
+    return this.getJoins().length > 0 || this.from.alias !== undefined;
+  }
+
+  private validateAliases(): void {
+    const names = new Set<string>();
+    this.getReferences().forEach((reference) => {
+      const name = qualifierOf(reference);
+      if (names.has(name)) {
+        throw new Error(`重复的表名或别名: ${name}`);
+      }
+      names.add(name);
+    });
+  }
+
+  /**
+   * 读取 FROM 表并依次执行 JOIN
+   */
+  private scan(context: SQLContext): any[] {
+    const rows = this.access(context).rows();
+    if (!this.isQualified()) {
+      return rows;
+    }
+
+    // 统计每个列名出现在几张表中，只出现一次的列可以不加限定
+    const references = this.getReferences();
+    const columnCounts: Map<string, number> = new Map();
+    references.forEach((reference) => {
+      tableColumns(context.getTable(reference.table)).forEach((column) => {
+        columnCounts.set(column, (columnCounts.get(column) || 0) + 1);
+      });
+    });
+    const unambiguous = (column: string) => columnCounts.get(column) === 1;
+
+    let data = rows.map((row) => qualifyRow({}, this.from, row, unambiguous));
+    this.getJoins().forEach((join) => {
+      data = this.join(context, data, join, unambiguous);
+    });
+    return data;
+  }
+
+  /**
+   * 有 JOIN 时总是全表扫描，否则按 WHERE 条件选择索引
+   */
+  private access(context: SQLContext): AccessPath {
+    return planTableAccess(
+      context,
+      this.from,
+      this.getJoins().length > 0 ? undefined : this.whereClause
+    );
+  }
+
+  /**
+   * 按执行顺序列出查询计划，不实际执行查询
+   */
+  explain(context: SQLContext): PlanStep[] {
+    const steps = [this.access(context).step];
+    this.getJoins().forEach((join) => {
+      steps.push({
+        operation: this.hashJoinKeys(join) ? "HASH JOIN" : "NESTED LOOP JOIN",
+        detail: `${join.type} JOIN ${join.table.table}${
+          join.table.alias ? ` ${join.table.alias}` : ""
+        }`,
+      });
+    });
+    if (this.whereClause) {
+      steps.push({ operation: "FILTER", detail: "WHERE" });
+    }
+    if (this.isGrouped()) {
+      steps.push({
+        operation: "GROUP",
+        detail: (this.options.groupBy || []).join(", ") || "全部行",
+      });
+      if (this.options.having) {
+        steps.push({ operation: "FILTER", detail: "HAVING" });
+      }
+    }
+    if (this.options.orderBy && this.options.orderBy.length > 0) {
+      steps.push({
+        operation: "SORT",
+        detail: this.options.orderBy
+          .map(({ column, descending }) => column + (descending ? " DESC" : ""))
+          .join(", "),
+      });
+    }
+    steps.push({
+      operation: "PROJECT",
+      detail: this.items
+        .map(({ expression, alias }) =>
+          alias ? `${expression} AS ${alias}` : expression.toString()
+        )
+        .join(", "),
+    });
+    if (this.options.distinct) {
+      steps.push({ operation: "DISTINCT", detail: "去掉重复行" });
+    }
+    if (this.options.limit !== undefined || this.options.offset) {
+      const parts: string[] = [];
+      if (this.options.limit !== undefined) {
+        parts.push(`LIMIT ${this.options.limit}`);
+      }
+      if (this.options.offset) {
+        parts.push(`OFFSET ${this.options.offset}`);
+      }
+      steps.push({ operation: "LIMIT", detail: parts.join(" ") });
+    }
+    return steps;
+  }
+
+  /**
+   * ON 条件为两侧限定列的等值比较时使用哈希连接，否则退化为嵌套循环连接。
+   * 两种方式都按左表顺序、再按右表顺序输出。
+   */
+  private join(
+    context: SQLContext,
+    left: any[],
+    join: JoinClause,
+    unambiguous: (column: string) => boolean
+  ): any[] {
+    const right = context.getTable(join.table.table);
+    const combine = (leftRow: any, rightRow: any) =>
+      qualifyRow(leftRow, join.table, rightRow, unambiguous);
+    const nullRow: any = {};
+    tableColumns(right).forEach((column) => {
+      nullRow[column] = null;
+    });
+    const unmatched = (leftRow: any) =>
+      join.type === "LEFT" ? [combine(leftRow, nullRow)] : [];
+
+    const keys = this.hashJoinKeys(join);
+    if (keys) {
+      const [leftKey, rightColumn] = keys;
+      const buckets: Map<any, any[]> = new Map();
+      right.forEach((row) => {
+        const value = row[rightColumn];
+        if (!isNull(value)) {
+          if (!buckets.has(value)) {
+            buckets.set(value, []);
+          }
+          buckets.get(value)!.push(row);
+        }
+      });
+      return left.flatMap((leftRow) => {
+        const matches = buckets.get(lookupSQLColumn(leftRow, leftKey)) || [];
+        return matches.length > 0
+          ? matches.map((rightRow) => combine(leftRow, rightRow))
+          : unmatched(leftRow);
+      });
+    }
+
+    return left.flatMap((leftRow) => {
+      const matches = right
+        .map((rightRow) => combine(leftRow, rightRow))
+        .filter((row) => join.condition.evaluate(row));
+      return matches.length > 0 ? matches : unmatched(leftRow);
+    });
+  }
+
+  /**
+   * 返回哈希连接所用的 [左侧行中的键, 右表的列名]；不适用时返回 null
+   */
+  private hashJoinKeys(join: JoinClause): [string, string] | null {
+    const condition = join.condition;
+    if (
+      !(condition instanceof ColumnComparisonCondition) ||
+      condition.getOperator() !== "="
+    ) {
+      return null;
+    }
+    // 右表一侧必须是右表自己的列，不能是嵌套字段
+    const prefix = `${qualifierOf(join.table)}.`;
+    const ownColumn = (name: string) =>
+      name.startsWith(prefix) && !name.slice(prefix.length).includes(".");
+    const [a, b] = condition.getColumns();
+    if (ownColumn(b) && a.includes(".") && !a.startsWith(prefix)) {
+      return [a, b.slice(prefix.length)];
+    }
+    if (ownColumn(a) && b.includes(".") && !b.startsWith(prefix)) {
+      return [b, a.slice(prefix.length)];
+    }
+    return null;
+  }
+
+  /**
+   * 连接查询的 SELECT *：按表顺序输出所有列，键为限定名
+   */
+  private projectAll(context: SQLContext, data: any[]): any[] {
+    const keys: string[] = [];
+    this.getReferences().forEach((reference) => {
+      const qualifier = qualifierOf(reference);
+      tableColumns(context.getTable(reference.table)).forEach((column) => {
+        keys.push(`${qualifier}.${column}`);
+      });
+    });
+    return data.map((row) => {
+      const result: any = {};
+      keys.forEach((key) => {
+        result[key] = row[key];
+      });
+      return result;
+    });
+  }
+
+  private isGrouped(): boolean {
+    return (
+      this.options.groupBy !== undefined ||
+      this.options.having !== undefined ||
+      this.getAggregates().length > 0
+    );
+  }
+
+  /**
+   * 查询用到的聚合函数，规范化文本相同的只计算一次
+   */
+  private getAggregates(): AggregateExpression[] {
+    const aggregates: Map<string, AggregateExpression> = new Map();
+    this.items.forEach((item) => {
+      if (item.expression instanceof AggregateExpression) {
+        aggregates.set(item.expression.toString(), item.expression);
+      }
+    });
+    (this.options.aggregates || []).forEach((aggregate) => {
+      if (!aggregates.has(aggregate.toString())) {
+        aggregates.set(aggregate.toString(), aggregate);
+      }
+    });
+    return Array.from(aggregates.values());
+  }
+
+  /**
+   * 分组查询中，非聚合的列（包括计算列中引用的列）必须出现在 GROUP BY 中
+   */
+  private validateGrouping(): void {
+    if (!this.isGrouped()) {
+      return;
+    }
+    const groupBy = this.options.groupBy || [];
+    this.items.forEach(({ expression }) => {
+      if (expression === "*") {
+        throw new Error("分组查询不能使用 SELECT *");
+      }
+      const columns =
+        typeof expression === "string"
+          ? [expression]
+          : expression instanceof ScalarExpression
+          ? expression.getColumns()
+          : [];
+      columns.forEach((column) => {
+        if (!groupBy.includes(column)) {
+          throw new Error(`列 ${column} 必须出现在 GROUP BY 中或用于聚合函数`);
+        }
+      });
+    });
+  }
+
+  /**
+   * 按 GROUP BY 列分组，每组生成一个包含分组列和聚合值的结果行；
+   * 没有 GROUP BY 时所有行（即使为空）构成一组
+   */
+  private group(data: any[]): any[] {
+    const groupBy = this.options.groupBy || [];
+    const groups: Map<string, any[]> = new Map();
+    if (groupBy.length === 0) {
+      groups.set("", data);
+    } else {
+      data.forEach((row) => {
+        const key = JSON.stringify(
+          groupBy.map((column) => lookupSQLColumn(row, column))
+        );
+        if (!groups.has(key)) {
+          groups.set(key, []);
+        }
+        groups.get(key)!.push(row);
+      });
+    }
+
+    const aggregates = this.getAggregates();
+    return Array.from(groups.values()).map((rows) => {
+      const result: any = {};
+      groupBy.forEach((column) => {
+        result[column] =
+          rows.length > 0 ? lookupSQLColumn(rows[0], column) ?? null : null;
+      });
+      aggregates.forEach((aggregate) => {
+        result[aggregate.toString()] = aggregate.aggregate(rows);
+      });
+      this.items.forEach(({ expression, alias }) => {
+        if (expression instanceof ScalarExpression) {
+          result[alias || expression.toString()] = expression.evaluate(result);
+        } else if (alias) {
+          result[alias] = result[expression.toString()];
+        }
+      });
+      return result;
+    });
+  }
+
+  /**
+   * 多键稳定排序：键值相同的行保持原有顺序
+   */
+  private sort(data: any[]): any[] {
+    const orderBy = this.options.orderBy || [];
+    if (orderBy.length === 0) {
+      return data;
+    }
+    const grouped = this.isGrouped();
+    const keys = orderBy.map(({ column }): ((row: any) => any) => {
+      // 未分组时允许按 SELECT 列表中的别名排序，计算列在此求值
+      const item = this.items.find((item) => item.alias === column);
+      const expression = !grouped && item ? item.expression : column;
+      return expression instanceof ScalarExpression
+        ? (row) => expression.evaluate(row)
+        : (row) => lookupSQLColumn(row, expression.toString());
+    });
+    return [...data].sort((a, b) => {
+      for (let i = 0; i < orderBy.length; i++) {
+        const order = compareSQLValues(keys[i](a), keys[i](b));
+        const descending = orderBy[i].descending;
+        if (order !== 0) {
+          return descending ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private paginate(data: any[]): any[] {
+    const offset = this.options.offset || 0;
+    if (this.options.limit === undefined) {
+      return offset > 0 ? data.slice(offset) : data;
+    }
+    return data.slice(offset, offset + this.options.limit);
+  }
+}
+
+/**
+ * CREATE TABLE表达式
+ */
+class CreateTableExpression extends SQLExpression {
+  private table: string;
+  private columns: ColumnDefinition[];
+
+  constructor(table: string, columns: ColumnDefinition[]) {
+    super();
+    this.table = table;
+    this.columns = columns;
+  }
+
+  interpret(context: SQLContext): number {
+    context.createTable(this.table, new TableSchema(this.columns));
+    return 0;
+  }
+}
+
+/**
+ * INSERT表达式：向表末尾追加行，返回插入的行数
+ *
+ * 省略列名列表时按表结构（没有表结构时按表中已有的列）的顺序赋值。
+ * 有表结构的表会转换类型并检查约束。
+ */
+class InsertExpression extends SQLExpression {
+  private table: string;
+  private columns: string[] | undefined;
+  private rows: any[][];
+
+  constructor(table: string, columns: string[] | undefined, rows: any[][]) {
+    super();
+    this.table = table;
+    this.columns = columns;
+    this.rows = rows;
+  }
+
+  interpret(context: SQLContext): number {
+    const data = context.requireTable(this.table);
+    const schema = context.getSchema(this.table);
+    const columns =
+      this.columns || (schema ? schema.getColumnNames() : tableColumns(data));
+    if (columns.length === 0) {
+      throw new Error(`表 ${this.table} 没有已知的列，INSERT 需要列出列名`);
+    }
+
+    const rows = this.rows.map((values) => {
+      if (values.length !== columns.length) {
+        throw new Error(
+          `INSERT 的值个数（${values.length}）与列数（${columns.length}）不一致`
+        );
+      }
+      const row: any = {};
+      columns.forEach((column, index) => {
+        row[column] = resolveSQLValue(values[index]);
+      });
+      return row;
+    });
+    return context.insertRows(this.table, rows);
+  }
+}
+
+type CopyDirection = "FROM" | "TO";
+
+/**
+ * COPY表达式：COPY t FROM 'file' 把文件中的行追加到表中（表不存在时创建
+ * 没有表结构的表），COPY t TO 'file' 把整张表写入文件。格式由扩展名决定，
+ * 返回读写的行数。文件必须位于 SQLContext 设置的文件目录中。
+ */
+class CopyExpression extends SQLExpression {
+  private table: string;
+  private direction: CopyDirection;
+  private path: any;
+
+  constructor(table: string, direction: CopyDirection, path: any) {
+    super();
+    this.table = table;
+    this.direction = direction;
+    this.path = path;
+  }
+
+  interpret(context: SQLContext): number {
+    const path = context.resolveFile(String(resolveSQLValue(this.path)));
+    if (this.direction === "FROM") {
+      const rows = readTableFile(path);
+      if (!context.hasTable(this.table)) {
+        context.addTable(this.table, []);
+      }
+      return context.insertRows(this.table, rows);
+    }
+
+    const rows = context.requireTable(this.table);
+    const schema = context.getSchema(this.table);
+    writeTableFile(
+      path,
+      rows,
+      schema ? schema.getColumnNames() : tableColumns(rows)
+    );
+    return rows.length;
+  }
+}
+
+/**
+ * UPDATE、DELETE 要修改的行：与 SELECT 一样借助索引缩小候选行
+ */
+function matchingRows(
+  context: SQLContext,
+  table: string,
+  whereClause?: ConditionExpression
+): any[] {
+  return planTableAccess(context, { table }, whereClause)
+    .rows()
+    .filter((row) => !whereClause || whereClause.evaluate(row));
+}
+
+/**
+ * UPDATE 中的一个赋值：column = expression，表达式按修改前的行求值
+ */
+interface Assignment {
+  column: string;
+  value: ScalarExpression;
+}
+
+/**
+ * UPDATE表达式：原地修改满足条件的行，返回修改的行数
+ */
+class UpdateExpression extends SQLExpression {
+  private table: string;
+  private assignments: Assignment[];
+  private whereClause?: ConditionExpression;
+
+  constructor(
+    table: string,
+    assignments: Assignment[],
+    whereClause?: ConditionExpression
+  ) {
+    super();
+    this.table = table;
+    this.assignments = assignments;
+    this.whereClause = whereClause;
+  }
+
+  interpret(context: SQLContext): number {
+    context.requireTable(this.table);
+    const schema = context.getSchema(this.table);
+    const updates: Map<any, any> = new Map();
+    matchingRows(context, this.table, this.whereClause).forEach((row) => {
+      const updated = { ...row };
+      this.assignments.forEach(({ column, value }) => {
+        updated[column] = value.evaluate(row);
+      });
+      updates.set(row, schema ? schema.createRow(updated) : updated);
+    });
+
+    // 约束检查通过后才修改，保证一条语句要么全部生效要么都不生效
+    if (schema) {
+      schema.checkUnique(
+        Array.from(updates.values()),
+        Array.from(updates.keys())
+      );
+    }
+    context.updateRows(this.table, updates);
+    return updates.size;
+  }
+}
+
+/**
+ * DELETE表达式：原地删除满足条件的行，返回删除的行数
+ */
+class DeleteExpression extends SQLExpression {
+  private table: string;
+  private whereClause?: ConditionExpression;
+
+  constructor(table: string, whereClause?: ConditionExpression) {
+    super();
+    this.table = table;
+    this.whereClause = whereClause;
+  }
+
+  interpret(context: SQLContext): number {
+    context.requireTable(this.table);
+    const deleted = matchingRows(context, this.table, this.whereClause);
+    context.deleteRows(this.table, deleted);
+    return deleted.length;
+  }
+}
+
+type TransactionAction = "BEGIN" | "COMMIT" | "ROLLBACK";
+
+/**
+ * 事务控制表达式：BEGIN / COMMIT / ROLLBACK
+ */
+class TransactionExpression extends SQLExpression {
+  private action: TransactionAction;
+
+  constructor(action: TransactionAction) {
+    super();
+    this.action = action;
+  }
+
+  interpret(context: SQLContext): number {
+    switch (this.action) {
+      case "BEGIN":
+        context.begin();
+        break;
+      case "COMMIT":
+        context.commit();
+        break;
+      case "ROLLBACK":
+        context.rollback();
+        break;
+    }
+    return 0;
+  }
+}
+
+/**
+ * CREATE INDEX表达式
+ */
+class CreateIndexExpression extends SQLExpression {
+  private name: string;
+  private table: string;
+  private column: string;
+  private kind: IndexKind;
+
+  constructor(name: string, table: string, column: string, kind: IndexKind) {
+    super();
+    this.name = name;
+    this.table = table;
+    this.column = column;
+    this.kind = kind;
+  }
+
+  interpret(context: SQLContext): number {
+    context.createIndex(
+      this.kind === "HASH"
+        ? new HashIndex(this.name, this.table, this.column)
+        : new SortedIndex(this.name, this.table, this.column)
+    );
+    return 0;
+  }
+}
+
+/**
+ * EXPLAIN表达式：返回 SELECT 的执行计划
+ */
+class ExplainExpression extends SQLExpression {
+  private statement: SelectExpression;
+
+  constructor(statement: SelectExpression) {
+    super();
+    this.statement = statement;
+  }
+
+  interpret(context: SQLContext): PlanStep[] {
+    return this.statement.explain(context);
+  }
+}
+
+/**
+ * 表引用的限定名：有别名用别名，否则用表名
+ */
+function qualifierOf(reference: TableReference): string {
+  return reference.alias || reference.table;
+}
+
+/**
+ * 表中出现过的所有列名（按首次出现的顺序）
+ */
+function tableColumns(rows: any[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+}
+
+/**
+ * 把 source 行的列以限定名合并到 target 的副本中
+ */
+function qualifyRow(
+  target: any,
+  reference: TableReference,
+  source: any,
+  unambiguous: (column: string) => boolean
+): any {
+  const result: any = { ...target };
+  const qualifier = qualifierOf(reference);
+  Object.keys(source).forEach((column) => {
+    result[`${qualifier}.${column}`] = source[column];
+    if (unambiguous(column)) {
+      result[column] = source[column];
+    }
+  });
+  return result;
+}
+
+/**
+ * 按列名取值：先找完整的键（包括 u.name 这样的限定名），找不到时把最长的
+ * 已有前缀当作列，其余部分逐级访问嵌套对象，如 address.city、u.address.city
+ */
+function lookupSQLColumn(row: any, name: string): any {
+  if (Object.prototype.hasOwnProperty.call(row, name)) {
+    return row[name];
+  }
+  for (let dot = name.lastIndexOf("."); dot > 0; ) {
+    const prefix = name.slice(0, dot);
+    if (Object.prototype.hasOwnProperty.call(row, prefix)) {
+      return name
+        .slice(dot + 1)
+        .split(".")
+        .reduce(
+          (value, key) =>
+            value !== null && typeof value === "object"
+              ? value[key]
+              : undefined,
+          row[prefix]
+        );
+    }
+    dot = name.lastIndexOf(".", dot - 1);
+  }
+  return undefined;
+}
+
+/**
+ * 条件的左操作数：列名，或计算得到的标量表达式
+ */
+type SQLOperand = string | ScalarExpression;
+
+function operandValue(row: any, operand: SQLOperand): any {
+  return typeof operand === "string"
+    ? lookupSQLColumn(row, operand)
+    : operand.evaluate(row);
+}
+
+/**
+ * 占位符：? 按出现顺序编号（从 1 开始），:name 按名称绑定
+ *
+ * 语法树中出现值的位置保存占位符本身，执行时才取出绑定的值，
+ * 因此同一棵语法树可以用不同的参数反复执行，参数也不会拼接进 SQL 文本。
+ */
+class SQLParameter {
+  private key: number | string;
+  private value: any;
+  private bound: boolean = false;
+
+  constructor(key: number | string) {
+    this.key = key;
+  }
+
+  getKey(): number | string {
+    return this.key;
+  }
+
+  bind(value: any): void {
+    this.value = value;
+    this.bound = true;
+  }
+
+  getValue(): any {
+    if (!this.bound) {
+      throw new Error(`参数 ${this.toString()} 未绑定`);
+    }
+    return this.value;
+  }
+
+  toString(): string {
+    return typeof this.key === "number" ? `?${this.key}` : `:${this.key}`;
+  }
+}
+
+/**
+ * 与带表结构的列比较的占位符：取值时把绑定的值转换为列的类型
+ */
+class CoercedSQLParameter extends SQLParameter {
+  private parameter: SQLParameter;
+  private convert: (value: any) => any;
+
+  constructor(parameter: SQLParameter, convert: (value: any) => any) {
+    super(parameter.getKey());
+    this.parameter = parameter;
+    this.convert = convert;
+  }
+
+  getValue(): any {
+    return this.convert(this.parameter.getValue());
+  }
+}
+
+/**
+ * 取出语法树中保存的值，占位符取其绑定的值
+ */
+function resolveSQLValue(value: any): any {
+  return value instanceof SQLParameter ? value.getValue() : value;
+}
+
+/**
+ * 把 AND 连接的条件展开成列表
+ */
+function conjunctsOf(condition: ConditionExpression): ConditionExpression[] {
+  return condition instanceof AndCondition
+    ? condition.getConditions().flatMap(conjunctsOf)
+    : [condition];
+}
+
+/**
+ * 以 SQL 字面量的形式显示值
+ */
+function formatSQLValue(value: any): string {
+  if (isNull(value)) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  return typeof value === "string"
+    ? `'${value.replace(/'/g, "''")}'`
+    : String(value);
+}
+
+/**
+ * SQL 三值逻辑的真值：true、false 或 null（UNKNOWN）
+ */
+type SQLTruth = boolean | null;
+
+/**
+ * 条件抽象表达式：WHERE 子句中的布尔条件
+ *
+ * 采用三值逻辑：NULL（或缺失的列）参与的比较结果为 UNKNOWN，NOT UNKNOWN 仍为
+ * UNKNOWN，只有结果为 TRUE 的行才被保留；判断 NULL 只能用 IS NULL。
+ */
+abstract class ConditionExpression {
+  abstract test(row: any): SQLTruth;
+
+  evaluate(row: any): boolean {
+    return this.test(row) === true;
+  }
+}
+
+function isNull(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+/**
+ * WHERE表达式：列与常量的比较
+ */
+class WhereExpression extends ConditionExpression {
+  private column: string;
+  private operator: string;
+  private value: any;
+
+  constructor(column: string, operator: string, value: any) {
+    super();
+    this.column = column;
+    this.operator = operator;
+    this.value = value;
+  }
+
+  test(row: any): SQLTruth {
+    return testSQLComparison(
+      lookupSQLColumn(row, this.column),
+      this.operator,
+      resolveSQLValue(this.value)
+    );
+  }
+
+  getColumn(): string {
+    return this.column;
+  }
+
+  getOperator(): string {
+    return this.operator;
+  }
+
+  getValue(): any {
+    return resolveSQLValue(this.value);
+  }
+}
+
+/**
+ * 两列之间的比较，如 JOIN 的 ON u.id = o.user_id
+ */
+class ColumnComparisonCondition extends ConditionExpression {
+  private left: string;
+  private operator: string;
+  private right: string;
+
+  constructor(left: string, operator: string, right: string) {
+    super();
+    this.left = left;
+    this.operator = operator;
+    this.right = right;
+  }
+
+  test(row: any): SQLTruth {
+    return testSQLComparison(
+      lookupSQLColumn(row, this.left),
+      this.operator,
+      lookupSQLColumn(row, this.right)
+    );
+  }
+
+  getColumns(): [string, string] {
+    return [this.left, this.right];
+  }
+
+  getOperator(): string {
+    return this.operator;
+  }
+}
+
+/**
+ * 比较列值与常量。大小比较使用与有序索引相同的 compareSQLValues，数字与
+ * 字符串之间不做隐式转换，因此有没有索引结果都一样。
+ */
+function testSQLComparison(left: any, operator: string, right: any): SQLTruth {
+  if (isNull(left) || isNull(right)) {
+    return null;
+  }
+
+  switch (operator.toUpperCase()) {
+    case "=":
+      return left === right;
+    case "!=":
+    case "<>":
+      return left !== right;
+    case ">":
+      return compareSQLValues(left, right) > 0;
+    case "<":
+      return compareSQLValues(left, right) < 0;
+    case ">=":
+      return compareSQLValues(left, right) >= 0;
+    case "<=":
+      return compareSQLValues(left, right) <= 0;
+    case "LIKE":
+      return matchLike(String(left), String(right));
+    default:
+      return false;
+  }
+}
+
+/**
+ * 逻辑与条件
+ */
+class AndCondition extends ConditionExpression {
+  private left: ConditionExpression;
+  private right: ConditionExpression;
+
+  constructor(left: ConditionExpression, right: ConditionExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  test(row: any): SQLTruth {
+    const left = this.left.test(row);
+    if (left === false) {
+      return false;
+    }
+    const right = this.right.test(row);
+    if (right === false) {
+      return false;
+    }
+    return left === null || right === null ? null : true;
+  }
+
+  getConditions(): ConditionExpression[] {
+    return [this.left, this.right];
+  }
+}
+
+/**
+ * 逻辑或条件
+ */
+class OrCondition extends ConditionExpression {
+  private left: ConditionExpression;
+  private right: ConditionExpression;
+
+  constructor(left: ConditionExpression, right: ConditionExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  test(row: any): SQLTruth {
+    const left = this.left.test(row);
+    if (left === true) {
+      return true;
+    }
+    const right = this.right.test(row);
+    if (right === true) {
+      return true;
+    }
+    return left === null || right === null ? null : false;
+  }
+}
+
+/**
+ * 逻辑非条件：NOT UNKNOWN 仍为 UNKNOWN
+ */
+class NotCondition extends ConditionExpression {
+  private operand: ConditionExpression;
+
+  constructor(operand: ConditionExpression) {
+    super();
+    this.operand = operand;
+  }
+
+  test(row: any): SQLTruth {
+    const value = this.operand.test(row);
+    return value === null ? null : !value;
+  }
+}
+
+/**
+ * IN 条件：column IN (v1, v2, ...)
+ *
+ * 没有匹配、而列表中有 NULL 时结果为 UNKNOWN，因此 NOT IN 也不会保留该行。
+ */
+class InCondition extends ConditionExpression {
+  private column: SQLOperand;
+  private values: any[];
+
+  constructor(column: SQLOperand, values: any[]) {
+    super();
+    this.column = column;
+    this.values = values;
+  }
+
+  test(row: any): SQLTruth {
+    const columnValue = operandValue(row, this.column);
+    if (isNull(columnValue)) {
+      return null;
+    }
+    const values = this.values.map(resolveSQLValue);
+    if (values.some((value) => value === columnValue)) {
+      return true;
+    }
+    return values.some(isNull) ? null : false;
+  }
+
+  getColumn(): SQLOperand {
+    return this.column;
+  }
+
+  getValues(): any[] {
+    return this.values.map(resolveSQLValue);
+  }
+}
+
+/**
+ * BETWEEN 条件：column BETWEEN low AND high（闭区间）
+ */
+class BetweenCondition extends ConditionExpression {
+  private column: SQLOperand;
+  private low: any;
+  private high: any;
+
+  constructor(column: SQLOperand, low: any, high: any) {
+    super();
+    this.column = column;
+    this.low = low;
+    this.high = high;
+  }
+
+  test(row: any): SQLTruth {
+    const columnValue = operandValue(row, this.column);
+    const low = testSQLComparison(columnValue, ">=", resolveSQLValue(this.low));
+    const high = testSQLComparison(
+      columnValue,
+      "<=",
+      resolveSQLValue(this.high)
+    );
+    if (low === false || high === false) {
+      return false;
+    }
+    return low === null || high === null ? null : true;
+  }
+
+  getColumn(): SQLOperand {
+    return this.column;
+  }
+
+  getBounds(): [any, any] {
+    return [resolveSQLValue(this.low), resolveSQLValue(this.high)];
+  }
+}
+
+/**
+ * IS NULL 条件，列不存在也视为 NULL
+ */
+class IsNullCondition extends ConditionExpression {
+  private column: SQLOperand;
+
+  constructor(column: SQLOperand) {
+    super();
+    this.column = column;
+  }
+
+  test(row: any): SQLTruth {
+    return isNull(operandValue(row, this.column));
+  }
+}
+
+/**
+ * LIKE 通配符匹配：% 匹配任意长度字符串，_ 匹配单个字符
+ */
+function matchLike(text: string, pattern: string): boolean {
+  let t = 0;
+  let p = 0;
+  // 最近一次 % 的位置及其当时对应的文本位置，用于回溯
+  let starPattern = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (p < pattern.length && (pattern[p] === "_" || pattern[p] === text[t])) {
+      t++;
+      p++;
+    } else if (p < pattern.length && pattern[p] === "%") {
+      starPattern = p++;
+      starText = t;
+    } else if (starPattern !== -1) {
+      p = starPattern + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+
+  while (p < pattern.length && pattern[p] === "%") {
+    p++;
+  }
+  return p === pattern.length;
+}
+
+/**
+ * SQL 标量函数。参数个数在语法分析时检查
+ */
+interface SQLFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  call(args: any[]): any;
+}
+
+/**
+ * 以 TypeScript 实现的 SQL 函数；除非 acceptsNull，参数中有 NULL 时结果为 NULL
+ */
+class NativeSQLFunction implements SQLFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  private implementation: (...args: any[]) => any;
+  private acceptsNull: boolean;
+
+  constructor(
+    implementation: (...args: any[]) => any,
+    minArity: number,
+    maxArity: number = minArity,
+    acceptsNull: boolean = false
+  ) {
+    this.implementation = implementation;
+    this.minArity = minArity;
+    this.maxArity = maxArity;
+    this.acceptsNull = acceptsNull;
+  }
+
+  call(args: any[]): any {
+    if (!this.acceptsNull && args.some(isNull)) {
+      return null;
+    }
+    return this.implementation(...args);
+  }
+}
+
+/**
+ * 计算器中的函数（abs、round、sqrt 以及宿主注册的函数等），
+ * 按计算器当前的数值模式求值
+ */
+class CalculatorSQLFunction implements SQLFunction {
+  readonly minArity: number;
+  readonly maxArity: number;
+  private name: string;
+  private calculator: Context;
+
+  constructor(name: string, calculator: Context) {
+    const fn = calculator.getFunction(name);
+    this.name = name;
+    this.calculator = calculator;
+    this.minArity = fn.minArity;
+    this.maxArity = fn.maxArity;
+  }
+
+  call(args: any[]): any {
+    if (args.some(isNull)) {
+      return null;
+    }
+    const arithmetic = this.calculator.getArithmetic();
+    const values = args.map((arg) =>
+      arithmetic.fromNumber(toSQLNumber(arg, `函数 ${this.name.toUpperCase()}`))
+    );
+    return arithmetic.toNumber(
+      this.calculator.getFunction(this.name).call(values, this.calculator)
+    );
+  }
+}
+
+/**
+ * SQL 自带的字符串函数，SUBSTR 的起始位置从 1 开始
+ */
+const SQL_FUNCTIONS: Map<string, SQLFunction> = new Map([
+  ["UPPER", new NativeSQLFunction((text) => String(text).toUpperCase(), 1)],
+  ["LOWER", new NativeSQLFunction((text) => String(text).toLowerCase(), 1)],
+  ["LENGTH", new NativeSQLFunction((text) => String(text).length, 1)],
+  ["TRIM", new NativeSQLFunction((text) => String(text).trim(), 1)],
+  [
+    "SUBSTR",
+    new NativeSQLFunction(
+      (text, start, length?) => {
+        const from = Math.max(toSQLNumber(start, "函数 SUBSTR") - 1, 0);
+        return length === undefined
+          ? String(text).slice(from)
+          : String(text).substr(from, toSQLNumber(length, "函数 SUBSTR"));
+      },
+      2,
+      3
+    ),
+  ],
+  [
+    "REPLACE",
+    new NativeSQLFunction(
+      (text, search, replacement) =>
+        String(text).split(String(search)).join(String(replacement)),
+      3
+    ),
+  ],
+  // CONCAT 忽略 NULL，COALESCE 返回第一个非 NULL 的参数
+  [
+    "CONCAT",
+    new NativeSQLFunction(
+      (...args) =>
+        args
+          .filter((arg) => !isNull(arg))
+          .map(String)
+          .join(""),
+      1,
+      Infinity,
+      true
+    ),
+  ],
+  [
+    "COALESCE",
+    new NativeSQLFunction(
+      (...args) => args.find((arg) => !isNull(arg)) ?? null,
+      1,
+      Infinity,
+      true
+    ),
+  ],
+]);
+
+/**
+ * 按名称（不区分大小写）查找函数：先找 SQL 自带的函数，再找计算器中的函数
+ */
+function resolveSQLFunction(
+  name: string,
+  calculator: Context
+): SQLFunction | undefined {
+  const builtin = SQL_FUNCTIONS.get(name.toUpperCase());
+  if (builtin) {
+    return builtin;
+  }
+  const lower = name.toLowerCase();
+  return calculator.hasFunction(lower)
+    ? new CalculatorSQLFunction(lower, calculator)
+    : undefined;
+}
+
+function toSQLNumber(value: any, operation: string): number {
+  if (typeof value !== "number") {
+    throw new Error(`${operation} 需要数字，实际为 ${formatSQLValue(value)}`);
+  }
+  return value;
+}
+
+/**
+ * 标量表达式：对一行求出一个值，用于 SELECT 列表和条件中的计算
+ *
+ * NULL 参与的运算结果为 NULL。toString 给出规范化的 SQL 文本，
+ * 没有别名的计算列以它作为结果中的列名。
+ */
+abstract class ScalarExpression {
+  abstract evaluate(row: any): any;
+
+  /**
+   * 引用的列名（不含聚合函数）
+   */
+  abstract getColumns(): string[];
+
+  abstract toString(): string;
+
+  /**
+   * 运算符优先级，用于 toString 时决定是否加括号
+   */
+  getPrecedence(): number {
+    return 3;
+  }
+}
+
+/**
+ * 列引用，支持限定名和嵌套字段（如 address.city）
+ */
+class ColumnReferenceExpression extends ScalarExpression {
+  private name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  evaluate(row: any): any {
+    return lookupSQLColumn(row, this.name) ?? null;
+  }
+
+  getColumns(): string[] {
+    return [this.name];
+  }
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+/**
+ * 聚合函数的引用：在分组结果行中按聚合函数的规范化文本取值
+ */
+class AggregateReferenceExpression extends ScalarExpression {
+  private aggregate: AggregateExpression;
+
+  constructor(aggregate: AggregateExpression) {
+    super();
+    this.aggregate = aggregate;
+  }
+
+  getAggregate(): AggregateExpression {
+    return this.aggregate;
+  }
+
+  evaluate(row: any): any {
+    return row[this.aggregate.toString()] ?? null;
+  }
+
+  getColumns(): string[] {
+    return [];
+  }
+
+  toString(): string {
+    return this.aggregate.toString();
+  }
+}
+
+/**
+ * 常量或占位符
+ */
+class LiteralValueExpression extends ScalarExpression {
+  private value: any;
+
+  constructor(value: any) {
+    super();
+    this.value = value;
+  }
+
+  /**
+   * 语法树中保存的值，占位符不做解析
+   */
+  getValue(): any {
+    return this.value;
+  }
+
+  evaluate(row: any): any {
+    return resolveSQLValue(this.value);
+  }
+
+  getColumns(): string[] {
+    return [];
+  }
+
+  toString(): string {
+    return this.value instanceof SQLParameter
+      ? this.value.toString()
+      : formatSQLValue(this.value);
+  }
+}
+
+type ScalarOperator = "+" | "-" | "*" | "/" | "%" | "||";
+
+/**
+ * 二元运算：算术运算委托给计算器的算术策略，|| 为字符串拼接
+ */
+class BinaryScalarExpression extends ScalarExpression {
+  private operator: ScalarOperator;
+  private left: ScalarExpression;
+  private right: ScalarExpression;
+  private calculator: Context;
+
+  constructor(
+    operator: ScalarOperator,
+    left: ScalarExpression,
+    right: ScalarExpression,
+    calculator: Context
+  ) {
+    super();
+    this.operator = operator;
+    this.left = left;
+    this.right = right;
+    this.calculator = calculator;
+  }
+
+  evaluate(row: any): any {
+    const left = this.left.evaluate(row);
+    const right = this.right.evaluate(row);
+    if (isNull(left) || isNull(right)) {
+      return null;
+    }
+    if (this.operator === "||") {
+      return String(left) + String(right);
+    }
+
+    const operation = `运算 ${this.operator}`;
+    const arithmetic = this.calculator.getArithmetic();
+    const a = arithmetic.fromNumber(toSQLNumber(left, operation));
+    const b = arithmetic.fromNumber(toSQLNumber(right, operation));
+    let result: Numeric;
+    switch (this.operator) {
+      case "+":
+        result = arithmetic.add(a, b);
+        break;
+      case "-":
+        result = arithmetic.subtract(a, b);
+        break;
+      case "*":
+        result = arithmetic.multiply(a, b);
+        break;
+      default:
+        if (arithmetic.isZero(b)) {
+          throw new Error("除数不能为零");
+        }
+        result =
+          this.operator === "/"
+            ? arithmetic.divide(a, b)
+            : arithmetic.modulo(a, b);
+    }
+    return arithmetic.toNumber(result);
+  }
+
+  getColumns(): string[] {
+    return [...this.left.getColumns(), ...this.right.getColumns()];
+  }
+
+  getPrecedence(): number {
+    return this.operator === "*" ||
+      this.operator === "/" ||
+      this.operator === "%"
+      ? 2
+      : 1;
+  }
+
+  /**
+   * 运算都是左结合的：右操作数优先级相同时也要加括号
+   */
+  toString(): string {
+    const precedence = this.getPrecedence();
+    const wrap = (operand: ScalarExpression, strict: boolean) =>
+      operand.getPrecedence() < precedence ||
+      (strict && operand.getPrecedence() === precedence)
+        ? `(${operand})`
+        : operand.toString();
+    return `${wrap(this.left, false)} ${this.operator} ${wrap(
+      this.right,
+      true
+    )}`;
+  }
+}
+
+/**
+ * 取负
+ */
+class UnaryMinusExpression extends ScalarExpression {
+  private operand: ScalarExpression;
+  private calculator: Context;
+
+  constructor(operand: ScalarExpression, calculator: Context) {
+    super();
+    this.operand = operand;
+    this.calculator = calculator;
+  }
+
+  evaluate(row: any): any {
+    const value = this.operand.evaluate(row);
+    if (isNull(value)) {
+      return null;
+    }
+    const arithmetic = this.calculator.getArithmetic();
+    return arithmetic.toNumber(
+      arithmetic.negate(arithmetic.fromNumber(toSQLNumber(value, "取负运算")))
+    );
+  }
+
+  getColumns(): string[] {
+    return this.operand.getColumns();
+  }
+
+  toString(): string {
+    return this.operand.getPrecedence() < 3
+      ? `-(${this.operand})`
+      : `-${this.operand}`;
+  }
+}
+
+/**
+ * 标量函数调用，如 UPPER(city)、ROUND(price * 1.1, 2)
+ */
+class ScalarFunctionExpression extends ScalarExpression {
+  private name: string;
+  private fn: SQLFunction;
+  private args: ScalarExpression[];
+
+  constructor(name: string, fn: SQLFunction, args: ScalarExpression[]) {
+    super();
+    this.name = name;
+    this.fn = fn;
+    this.args = args;
+  }
+
+  evaluate(row: any): any {
+    return this.fn.call(this.args.map((arg) => arg.evaluate(row)));
+  }
+
+  getColumns(): string[] {
+    return this.args.flatMap((arg) => arg.getColumns());
+  }
+
+  toString(): string {
+    return `${this.name}(${this.args.join(", ")})`;
+  }
+}
+
+/**
+ * 两个标量表达式之间的比较，如 price * qty > 100、UPPER(city) LIKE 'S%'
+ */
+class ScalarComparisonCondition extends ConditionExpression {
+  private left: ScalarExpression;
+  private operator: string;
+  private right: ScalarExpression;
+
+  constructor(
+    left: ScalarExpression,
+    operator: string,
+    right: ScalarExpression
+  ) {
+    super();
+    this.left = left;
+    this.operator = operator;
+    this.right = right;
+  }
+
+  test(row: any): SQLTruth {
+    return testSQLComparison(
+      this.left.evaluate(row),
+      this.operator,
+      this.right.evaluate(row)
+    );
+  }
+}
+
+/**
+ * SQL词法单元类型
+ */
+type SQLTokenType =
+  | "keyword"
+  | "identifier"
+  | "number"
+  | "string"
+  | "operator"
+  | "parameter"
+  | "eof";
+
+/**
+ * SQL词法单元，关键字统一转为大写
+ */
+interface SQLToken {
+  type: SQLTokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * SQL词法分析器
+ *
+ * 支持 -- 行注释和 /* 块注释；"name" 与 `name` 为带引号的标识符；
+ * 'text' 中 '' 表示一个单引号，E'text' 还支持 \n、\t、\xHH、\uHHHH 等转义。
+ */
+class SQLTokenizer {
+  private static readonly KEYWORDS = new Set([
+    "SELECT",
+    "FROM",
+    "WHERE",
+    "AND",
+    "OR",
+    "NOT",
+    "IN",
+    "BETWEEN",
+    "IS",
+    "NULL",
+    "LIKE",
+    "ORDER",
+    "BY",
+    "ASC",
+    "DESC",
+    "LIMIT",
+    "OFFSET",
+    "GROUP",
+    "HAVING",
+    "AS",
+    "DISTINCT",
+    "JOIN",
+    "INNER",
+    "LEFT",
+    "OUTER",
+    "ON",
+    "INSERT",
+    "INTO",
+    "VALUES",
+    "UPDATE",
+    "SET",
+    "DELETE",
+    "BEGIN",
+    "COMMIT",
+    "ROLLBACK",
+    "CREATE",
+    "TABLE",
+    "PRIMARY",
+    "KEY",
+    "UNIQUE",
+    "INDEX",
+    "USING",
+    "EXPLAIN",
+    "COPY",
+    "TO",
+    "TRUE",
+    "FALSE",
+  ]);
+  private static readonly OPERATORS = [
+    "<>",
+    "!=",
+    "<=",
+    ">=",
+    "=",
+    "<",
+    ">",
+    "(",
+    ")",
+    ",",
+    "||",
+    "+",
+    "-",
+    "*",
+    "/",
+    "%",
+    ".",
+    ";",
+  ];
+  private static readonly NUMBER = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+  private static readonly WORD = /^[\p{L}_][\p{L}\p{N}_]*/u;
+  private static readonly ESCAPES: Record<string, string> = {
+    n: "\n",
+    t: "\t",
+    r: "\r",
+    b: "\b",
+    f: "\f",
+    "0": "\0",
+  };
+
+  tokenize(sql: string): SQLToken[] {
+    const tokens: SQLToken[] = [];
+    let position = 0;
+    let line = 1;
+    let lineStart = 0;
+    const fail = (message: string, display: string, at: number): never => {
+      const before = sql.slice(0, at);
+      const errorLine = before.split("\n").length;
+      const column = at - before.lastIndexOf("\n");
+      throw new ParseError(message, display, errorLine, column, [], sql);
+    };
+    // 移动到 end，同时统计跨过的换行（字符串、注释中也可能有换行）
+    const moveTo = (end: number) => {
+      for (; position < end; position++) {
+        if (sql[position] === "\n") {
+          line++;
+          lineStart = position + 1;
+        }
+      }
+    };
+
+    while (position < sql.length) {
+      const char = sql[position];
+      const column = position - lineStart + 1;
+
+      if (/\s/.test(char)) {
+        moveTo(position + 1);
+        continue;
+      }
+
+      if (sql.startsWith("--", position)) {
+        const end = sql.indexOf("\n", position);
+        moveTo(end < 0 ? sql.length : end);
+        continue;
+      }
+      if (sql.startsWith("/*", position)) {
+        const end = sql.indexOf("*/", position + 2);
+        if (end < 0) {
+          fail("注释缺少结束标记 */", `"/*"`, position);
+        }
+        moveTo(end + 2);
+        continue;
+      }
+
+      // E'...' 为转义字符串，普通字符串中只有 '' 表示一个单引号
+      const escaped =
+        (char === "E" || char === "e") && sql[position + 1] === "'";
+      if (char === "'" || escaped) {
+        const start = position;
+        const [value, end] = this.readQuoted(
+          sql,
+          escaped ? position + 1 : position,
+          escaped,
+          fail
+        );
+        if (end < 0) {
+          fail("字符串缺少结束引号", `"'"`, start);
+        }
+        tokens.push({ type: "string", value, line, column });
+        moveTo(end);
+        continue;
+      }
+
+      // 带引号的标识符："name" 或 `name`，可以包含空格、与关键字同名
+      if (char === '"' || char === "`") {
+        const start = position;
+        const [value, end] = this.readQuoted(sql, position, false, fail);
+        if (end < 0) {
+          fail("标识符缺少结束引号", `"${char}"`, start);
+        }
+        if (value === "") {
+          fail("标识符不能为空", `"${char}${char}"`, start);
+        }
+        tokens.push({ type: "identifier", value, line, column });
+        moveTo(end);
+        continue;
+      }
+
+      const rest = sql.slice(position);
+
+      // 占位符：? 的值为空串，:name 的值为名称
+      if (char === "?") {
+        tokens.push({ type: "parameter", value: "", line, column });
+        moveTo(position + 1);
+        continue;
+      }
+      if (char === ":") {
+        const nameMatch = sql.slice(position + 1).match(SQLTokenizer.WORD);
+        if (!nameMatch) {
+          fail("占位符缺少名称", `":"`, position);
+        }
+        tokens.push({ type: "parameter", value: nameMatch![0], line, column });
+        moveTo(position + nameMatch![0].length + 1);
+        continue;
+      }
+
+      const numberMatch = rest.match(SQLTokenizer.NUMBER);
+      if (numberMatch) {
+        tokens.push({ type: "number", value: numberMatch[0], line, column });
+        moveTo(position + numberMatch[0].length);
+        continue;
+      }
+
+      const wordMatch = rest.match(SQLTokenizer.WORD);
+      if (wordMatch) {
+        const word = wordMatch[0];
+        const upper = word.toUpperCase();
+        if (SQLTokenizer.KEYWORDS.has(upper)) {
+          tokens.push({ type: "keyword", value: upper, line, column });
+        } else {
+          tokens.push({ type: "identifier", value: word, line, column });
+        }
+        moveTo(position + word.length);
+        continue;
+      }
+
+      const operator = SQLTokenizer.OPERATORS.find((op) => rest.startsWith(op));
+      if (operator) {
+        tokens.push({ type: "operator", value: operator, line, column });
+        moveTo(position + operator.length);
+        continue;
+      }
+
+      fail("无法识别的字符", `"${char}"`, position);
+    }
+
+    tokens.push({
+      type: "eof",
+      value: "",
+      line,
+      column: position - lineStart + 1,
+    });
+    return tokens;
+  }
+
+  /**
+   * 读取从 start 处的引号开始、到同一种引号结束的内容，连续两个引号表示引号
+   * 本身。escapes 为 true 时处理反斜杠转义。返回 [内容, 结束引号之后的位置]，
+   * 没有结束引号时位置为 -1
+   */
+  private readQuoted(
+    sql: string,
+    start: number,
+    escapes: boolean,
+    fail: (message: string, display: string, at: number) => never
+  ): [string, number] {
+    const quote = sql[start];
+    let value = "";
+    let end = start + 1;
+    while (end < sql.length) {
+      const char = sql[end];
+      if (char === quote) {
+        if (sql[end + 1] !== quote) {
+          return [value, end + 1];
+        }
+        value += quote;
+        end += 2;
+      } else if (char === "\\" && escapes) {
+        const [text, length] = this.readEscape(sql, end, fail);
+        value += text;
+        end += length;
+      } else {
+        value += char;
+        end++;
+      }
+    }
+    return [value, -1];
+  }
+
+  /**
+   * 转义序列：\n \t \r \b \f \0 \xHH \uHHHH，其他字符（如 \\ \'）表示字符本身。
+   * 返回 [字符, 序列长度]
+   */
+  private readEscape(
+    sql: string,
+    start: number,
+    fail: (message: string, display: string, at: number) => never
+  ): [string, number] {
+    const char = sql[start + 1];
+    if (char === undefined) {
+      return fail("字符串缺少结束引号", `"'"`, start);
+    }
+    if (char in SQLTokenizer.ESCAPES) {
+      return [SQLTokenizer.ESCAPES[char], 2];
+    }
+    if (char === "x" || char === "u") {
+      const length = char === "x" ? 2 : 4;
+      const digits = sql.slice(start + 2, start + 2 + length);
+      if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) {
+        fail("无效的转义序列", `"\\${char}${digits}"`, start);
+      }
+      return [String.fromCharCode(parseInt(digits, 16)), 2 + length];
+    }
+    return [char, 2];
+  }
+}
+
+/**
+ * SQL递归下降语法分析器
+ *
+ * 文法：
+ *   sql        := statement ";"?
+ *   statement  := select | insert | update | delete | create | createIndex
+ *               | EXPLAIN select | copy | BEGIN | COMMIT | ROLLBACK
+ *   copy       := COPY IDENTIFIER (FROM | TO) (STRING | parameter)
+ *   createIndex:= CREATE INDEX IDENTIFIER ON IDENTIFIER "(" column ")"
+ *                 (USING (HASH | SORTED))?
+ *   create     := CREATE TABLE IDENTIFIER "(" columnDef ("," columnDef)* ")"
+ *   columnDef  := IDENTIFIER TYPE_NAME ("(" NUMBER ")")?
+ *                 (PRIMARY KEY | NOT NULL | UNIQUE)*
+ *   insert     := INSERT INTO IDENTIFIER ("(" IDENTIFIER ("," IDENTIFIER)* ")")?
+ *                 VALUES tuple ("," tuple)*
+ *   tuple      := "(" value ("," value)* ")"
+ *   update     := UPDATE IDENTIFIER SET IDENTIFIER "=" expr
+ *                 ("," IDENTIFIER "=" expr)* (WHERE condition)?
+ *   delete     := DELETE FROM IDENTIFIER (WHERE condition)?
+ *   select     := SELECT DISTINCT? columns FROM tableRef join* (WHERE condition)?
+ *                 (GROUP BY column ("," column)*)? (HAVING condition)?
+ *                 (ORDER BY orderItem ("," orderItem)*)?
+ *                 (LIMIT NUMBER)? (OFFSET NUMBER)?
+ *   columns    := "*" | item ("," item)*
+ *   item       := expr (AS IDENTIFIER)?
+ *   aggregate  := AGGREGATE_NAME "(" ("*" | DISTINCT? column) ")"
+ *   orderItem  := operand (ASC | DESC)?
+ *   tableRef   := IDENTIFIER (AS? IDENTIFIER)?
+ *   join       := (INNER | LEFT OUTER?)? JOIN tableRef ON condition
+ *   column     := IDENTIFIER ("." IDENTIFIER)*
+ *   condition  := andCond (OR andCond)*
+ *   andCond    := notCond (AND notCond)*
+ *   notCond    := NOT notCond | predicate
+ *   predicate  := "(" condition ")"
+ *               | expr compareOp expr
+ *               | expr NOT? IN "(" value ("," value)* ")"
+ *               | expr NOT? BETWEEN value AND value
+ *               | expr NOT? LIKE (STRING | parameter)
+ *               | expr IS NOT? NULL
+ *   expr       := term (("+" | "-" | "||") term)*
+ *   term       := unary (("*" | "/" | "%") unary)*
+ *   unary      := "-" unary | primary
+ *   primary    := "(" expr ")" | aggregate | IDENTIFIER "(" (expr ("," expr)*)? ")"
+ *               | column | value
+ *   operand    := aggregate | column
+ *   value      := STRING | "-"? NUMBER | NULL | TRUE | FALSE | "?" | ":" IDENTIFIER
+ *
+ * IDENTIFIER 包括带引号的 "name" 和 `name`。
+ * 聚合函数只能出现在 SELECT 列表、HAVING 和 ORDER BY 中。
+ * 列名中多出的部分表示访问嵌套对象的字段，如 address.city、u.address.city。
+ * 以 "(" 开头的条件先按括号中的条件解析，不成立时再按表达式解析，
+ * 如 (price + tax) * qty > 100。
+ * 构造时传入上下文则在语法分析阶段检查列名：引用带表结构的表中不存在的列
+ * 会直接报错。
+ * 语法错误给出出错的行列、源码片段以及此处可以接受的内容。
+ * 优先级：NOT > AND > OR。
+ */
+class SQLParser {
+  private static readonly COMPARISON_OPERATORS = [
+    "=",
+    "!=",
+    "<>",
+    "<",
+    "<=",
+    ">",
+    ">=",
+  ];
+
+  private static readonly AGGREGATES = ["COUNT", "SUM", "AVG", "MIN", "MAX"];
+
+  private tokens: SQLToken[];
+  private current: number = 0;
+  private context?: SQLContext;
+  private allowAggregates: boolean = false;
+  private insideAggregate: boolean = false;
+  // HAVING、ORDER BY 中引用的聚合函数
+  private referencedAggregates: AggregateExpression[] = [];
+  // 语句中引用的列名及其位置，用于检查未知的列
+  private columnReferences: { name: string; token: SQLToken }[] = [];
+  // 已解析的 FROM、JOIN 或 UPDATE、DELETE 的表，用于确定比较中的列的类型
+  private scope: TableReference[] = [];
+  private parameters: SQLParameter[] = [];
+  private calculator: Context;
+  private source?: string;
+  // 在 expectedAt 位置尝试过但没有匹配上的内容，用于错误信息
+  private expectedAt: number = -1;
+  private expected: string[] = [];
+
+  constructor(tokens: SQLToken[], context?: SQLContext, source?: string) {
+    this.tokens = tokens;
+    this.context = context;
+    this.calculator = context ? context.getCalculator() : new Context();
+    this.source = source;
+  }
+
+  parse(): SQLExpression {
+    const statement = this.parseStatement();
+    this.matchOperator(";");
+    if (this.peek().type !== "eof") {
+      this.expecting("语句结尾");
+      this.error("多余的内容");
+    }
+    return statement;
+  }
+
+  private parseStatement(): SQLExpression {
+    const token = this.peek();
+    if (token.type === "keyword") {
+      switch (token.value) {
+        case "INSERT":
+          return this.parseInsert();
+        case "UPDATE":
+          return this.parseUpdate();
+        case "DELETE":
+          return this.parseDelete();
+        case "CREATE":
+          this.advance();
+          return this.matchKeyword("INDEX")
+            ? this.parseCreateIndex()
+            : this.parseCreateTable();
+        case "EXPLAIN":
+          this.advance();
+          return new ExplainExpression(this.parseSelect());
+        case "COPY":
+          return this.parseCopy();
+        case "BEGIN":
+        case "COMMIT":
+        case "ROLLBACK":
+          this.advance();
+          return new TransactionExpression(token.value);
+        case "SELECT":
+          return this.parseSelect();
+      }
+    }
+    this.expecting(
+      "SELECT",
+      "INSERT",
+      "UPDATE",
+      "DELETE",
+      "CREATE",
+      "EXPLAIN",
+      "COPY",
+      "BEGIN",
+      "COMMIT",
+      "ROLLBACK"
+    );
+    return this.error("需要语句");
+  }
+
+  /**
+   * 语句中的占位符，? 按出现顺序排列，同名的 :name 只出现一次
+   */
+  getParameters(): SQLParameter[] {
+    return this.parameters;
+  }
+
+  private parseParameter(): SQLParameter {
+    const token = this.peek();
+    const positional = token.value === "";
+    const first = this.parameters[0];
+    if (first && (typeof first.getKey() === "number") !== positional) {
+      this.error("不能混用 ? 和 :name 占位符");
+    }
+    this.advance();
+
+    if (positional) {
+      const parameter = new SQLParameter(this.parameters.length + 1);
+      this.parameters.push(parameter);
+      return parameter;
+    }
+    let parameter = this.parameters.find(
+      (parameter) => parameter.getKey() === token.value
+    );
+    if (!parameter) {
+      parameter = new SQLParameter(token.value);
+      this.parameters.push(parameter);
+    }
+    return parameter;
+  }
+
+  /**
+   * 索引类型默认为 SORTED，可同时用于等值和范围查询
+   */
+  private parseCreateIndex(): CreateIndexExpression {
+    const name = this.expectIdentifier();
+    this.expectKeyword("ON");
+    const table = this.expectIdentifier();
+    this.expectOperator("(");
+    const column = this.parseColumnName();
+    this.expectOperator(")");
+    this.checkColumns([{ table }]);
+
+    let kind: IndexKind = "SORTED";
+    if (this.matchKeyword("USING")) {
+      const token = this.peek();
+      const value = token.value.toUpperCase();
+      if (
+        token.type !== "identifier" ||
+        (value !== "HASH" && value !== "SORTED")
+      ) {
+        this.expecting("HASH", "SORTED");
+        this.error("需要索引类型 HASH 或 SORTED");
+      }
+      this.advance();
+      kind = value as IndexKind;
+    }
+    return new CreateIndexExpression(name, table, column, kind);
+  }
+
+  private parseCreateTable(): CreateTableExpression {
+    this.expectKeyword("TABLE");
+    const table = this.expectIdentifier();
+    this.expectOperator("(");
+    const columns = [this.parseColumnDefinition()];
+    while (this.matchOperator(",")) {
+      columns.push(this.parseColumnDefinition());
+    }
+    this.expectOperator(")");
+    return new CreateTableExpression(table, columns);
+  }
+
+  private parseColumnDefinition(): ColumnDefinition {
+    const name = this.expectIdentifier();
+    const typeToken = this.peek();
+    const type =
+      typeToken.type === "identifier"
+        ? TableSchema.resolveType(typeToken.value)
+        : undefined;
+    if (!type) {
+      this.expecting("INT", "REAL", "TEXT", "BOOLEAN");
+      return this.error("需要列类型（INT、REAL、TEXT 或 BOOLEAN）");
+    }
+    this.advance();
+    // VARCHAR(255) 之类的长度只做语法上的兼容
+    if (this.matchOperator("(")) {
+      this.parseCount();
+      this.expectOperator(")");
+    }
+
+    const column = {
+      name,
+      type,
+      notNull: false,
+      unique: false,
+      primaryKey: false,
+    };
+    while (true) {
+      if (this.matchKeyword("PRIMARY")) {
+        this.expectKeyword("KEY");
+        column.primaryKey = true;
+      } else if (this.matchKeyword("NOT")) {
+        this.expectKeyword("NULL");
+        column.notNull = true;
+      } else if (this.matchKeyword("UNIQUE")) {
+        column.unique = true;
+      } else {
+        return column;
+      }
+    }
+  }
+
+  private parseCopy(): CopyExpression {
+    this.expectKeyword("COPY");
+    const table = this.expectIdentifier();
+    let direction: CopyDirection = "TO";
+    if (this.matchKeyword("FROM")) {
+      direction = "FROM";
+    } else {
+      this.expectKeyword("TO");
+    }
+    const token = this.peek();
+    if (token.type === "parameter") {
+      return new CopyExpression(table, direction, this.parseParameter());
+    }
+    if (token.type !== "string") {
+      this.expecting("字符串", "占位符");
+      this.error("需要文件路径字符串");
+    }
+    this.advance();
+    return new CopyExpression(table, direction, token.value);
+  }
+
+  private parseInsert(): InsertExpression {
+    this.expectKeyword("INSERT");
+    this.expectKeyword("INTO");
+    const table = this.expectIdentifier();
+
+    let columns: string[] | undefined;
+    if (this.matchOperator("(")) {
+      columns = [this.parseColumnName()];
+      while (this.matchOperator(",")) {
+        columns.push(this.parseColumnName());
+      }
+      this.expectOperator(")");
+    }
+    this.checkColumns([{ table }]);
+
+    this.expectKeyword("VALUES");
+    const rows = [this.parseTuple()];
+    while (this.matchOperator(",")) {
+      rows.push(this.parseTuple());
+    }
+    return new InsertExpression(table, columns, rows);
+  }
+
+  private parseTuple(): any[] {
+    this.expectOperator("(");
+    const values = [this.parseValue()];
+    while (this.matchOperator(",")) {
+      values.push(this.parseValue());
+    }
+    this.expectOperator(")");
+    return values;
+  }
+
+  private parseUpdate(): UpdateExpression {
+    this.expectKeyword("UPDATE");
+    const table = this.expectIdentifier();
+    this.scope = [{ table }];
+    this.expectKeyword("SET");
+    const assignments = [this.parseAssignment()];
+    while (this.matchOperator(",")) {
+      assignments.push(this.parseAssignment());
+    }
+    const whereClause = this.matchKeyword("WHERE")
+      ? this.parseCondition()
+      : undefined;
+    this.checkColumns([{ table }]);
+    return new UpdateExpression(table, assignments, whereClause);
+  }
+
+  private parseAssignment(): Assignment {
+    const column = this.parseColumnName();
+    this.expectOperator("=");
+    return { column, value: this.parseExpression() };
+  }
+
+  private parseDelete(): DeleteExpression {
+    this.expectKeyword("DELETE");
+    this.expectKeyword("FROM");
+    const table = this.expectIdentifier();
+    this.scope = [{ table }];
+    const whereClause = this.matchKeyword("WHERE")
+      ? this.parseCondition()
+      : undefined;
+    this.checkColumns([{ table }]);
+    return new DeleteExpression(table, whereClause);
+  }
+
+  /**
+   * 检查语句中引用的列是否存在。只检查带表结构的表：限定列名检查对应的表，
+   * 不带限定的列名在所有表都有表结构时检查是否至少属于其中一张表。
+   * 嵌套字段只检查它所在的列。aliases 为 SELECT 列表中的别名，可以在
+   * ORDER BY 中引用。
+   * 多张表都有的列（按表结构或表中已有的数据）必须用表名或别名限定。
+   */
+  private checkColumns(scope: TableReference[], aliases: string[] = []): void {
+    if (!this.context) {
+      return;
+    }
+    const context = this.context;
+    const schemas = scope.map((reference) =>
+      context.getSchema(reference.table)
+    );
+    const columns =
+      scope.length > 1
+        ? scope.map((reference, index) => {
+            const schema = schemas[index];
+            return schema
+              ? schema.getColumnNames()
+              : tableColumns(context.getTable(reference.table));
+          })
+        : [];
+
+    this.columnReferences.forEach(({ name, token }) => {
+      const [first, second] = name.split(".");
+      const index = scope.findIndex(
+        (reference) => qualifierOf(reference) === first
+      );
+      if (second !== undefined && index >= 0) {
+        const schema = schemas[index];
+        if (schema && !schema.hasColumn(second)) {
+          this.errorAt(token, `未知的列: ${first}.${second}`);
+        }
+        return;
+      }
+      if (
+        !aliases.includes(first) &&
+        schemas.every((schema) => schema && !schema.hasColumn(first))
+      ) {
+        this.errorAt(
+          token,
+          second === undefined
+            ? `未知的列: ${name}`
+            : `未知的表或别名: ${first}`
+        );
+      }
+      if (
+        !aliases.includes(first) &&
+        columns.filter((names) => names.includes(first)).length > 1
+      ) {
+        this.errorAt(token, `列名不明确: ${first}，需要用表名或别名限定`);
+      }
+    });
+  }
+
+  private parseSelect(): SelectExpression {
+    this.expectKeyword("SELECT");
+    const distinct = this.matchKeyword("DISTINCT");
+    this.allowAggregates = true;
+    const columns = this.parseColumns();
+    this.allowAggregates = false;
+    this.expectKeyword("FROM");
+    const table = this.parseTableReference();
+    this.scope = [table];
+
+    const joins: JoinClause[] = [];
+    let join: JoinClause | undefined;
+    while ((join = this.parseJoin())) {
+      joins.push(join);
+    }
+
+    let whereClause: ConditionExpression | undefined;
+    if (this.matchKeyword("WHERE")) {
+      whereClause = this.parseCondition();
+    }
+
+    const options: SelectOptions = {};
+    if (distinct) {
+      options.distinct = true;
+    }
+    if (joins.length > 0) {
+      options.joins = joins;
+    }
+    if (this.matchKeyword("GROUP")) {
+      this.expectKeyword("BY");
+      options.groupBy = [this.parseColumnName()];
+      while (this.matchOperator(",")) {
+        options.groupBy.push(this.parseColumnName());
+      }
+    }
+
+    this.allowAggregates = true;
+    if (this.matchKeyword("HAVING")) {
+      options.having = this.parseCondition();
+    }
+    if (this.matchKeyword("ORDER")) {
+      this.expectKeyword("BY");
+      options.orderBy = [this.parseOrderByItem()];
+      while (this.matchOperator(",")) {
+        options.orderBy.push(this.parseOrderByItem());
+      }
+    }
+    if (this.matchKeyword("LIMIT")) {
+      options.limit = this.parseCount();
+    }
+    if (this.matchKeyword("OFFSET")) {
+      options.offset = this.parseCount();
+    }
+    this.allowAggregates = false;
+    if (this.referencedAggregates.length > 0) {
+      options.aggregates = this.referencedAggregates;
+    }
+    this.checkColumns(
+      [table, ...joins.map((join) => join.table)],
+      columns
+        .filter((item) => item.alias !== undefined)
+        .map((item) => item.alias!)
+    );
+
+    return new SelectExpression(columns, table, whereClause, options);
+  }
+
+  private parseTableReference(): TableReference {
+    const table = this.expectIdentifier();
+    if (this.matchKeyword("AS") || this.peek().type === "identifier") {
+      return { table, alias: this.expectIdentifier() };
+    }
+    return { table };
+  }
+
+  /**
+   * 解析一个 JOIN 子句，没有 JOIN 时返回 undefined
+   */
+  private parseJoin(): JoinClause | undefined {
+    let type: JoinType = "INNER";
+    if (this.matchKeyword("LEFT")) {
+      type = "LEFT";
+      this.matchKeyword("OUTER");
+      this.expectKeyword("JOIN");
+    } else if (this.matchKeyword("INNER")) {
+      this.expectKeyword("JOIN");
+    } else if (!this.matchKeyword("JOIN")) {
+      return undefined;
+    }
+    const table = this.parseTableReference();
+    this.scope.push(table);
+    this.expectKeyword("ON");
+    return { type, table, condition: this.parseCondition() };
+  }
+
+  /**
+   * 列名，可以用表名或别名限定，如 u.name，之后可以继续访问嵌套字段
+   */
+  private parseColumnName(): string {
+    const token = this.peek();
+    let name = this.expectIdentifier();
+    while (this.matchOperator(".")) {
+      name = `${name}.${this.expectIdentifier()}`;
+    }
+    this.columnReferences.push({ name, token });
+    return name;
+  }
+
+  private parseOrderByItem(): OrderByItem {
+    const column = this.parseOperand();
+    if (this.matchKeyword("DESC")) {
+      return { column, descending: true };
+    }
+    this.matchKeyword("ASC");
+    return { column, descending: false };
+  }
+
+  /**
+   * LIMIT / OFFSET 的行数，必须是非负整数
+   */
+  private parseCount(): number {
+    const token = this.peek();
+    if (token.type !== "number" || !/^\d+$/.test(token.value)) {
+      this.expecting("非负整数");
+      return this.error("需要非负整数");
+    }
+    this.advance();
+    return parseInt(token.value, 10);
+  }
+
+  private parseColumns(): SelectItem[] {
+    if (this.matchOperator("*")) {
+      return [{ expression: "*" }];
+    }
+    const items = [this.parseSelectItem()];
+    while (this.matchOperator(",")) {
+      items.push(this.parseSelectItem());
+    }
+    return items;
+  }
+
+  /**
+   * 单独的列和聚合函数按原样保存，其他表达式作为计算列
+   */
+  private parseSelectItem(): SelectItem {
+    const parsed = this.parseExpression();
+    let expression: SelectItem["expression"] = parsed;
+    if (parsed instanceof ColumnReferenceExpression) {
+      expression = parsed.getName();
+    } else if (parsed instanceof AggregateReferenceExpression) {
+      expression = parsed.getAggregate();
+    }
+    if (this.matchKeyword("AS")) {
+      return { expression, alias: this.expectIdentifier() };
+    }
+    return { expression };
+  }
+
+  private isAggregateCall(): boolean {
+    const token = this.peek();
+    const next = this.tokens[this.current + 1];
+    return (
+      token.type === "identifier" &&
+      SQLParser.AGGREGATES.includes(token.value.toUpperCase()) &&
+      next.type === "operator" &&
+      next.value === "("
+    );
+  }
+
+  private parseAggregate(): AggregateExpression {
+    const name = this.advance().value;
+    this.expectOperator("(");
+    let column: SQLOperand = "*";
+    let distinct = false;
+    if (!this.matchOperator("*")) {
+      distinct = this.matchKeyword("DISTINCT");
+      this.insideAggregate = true;
+      const argument = this.parseExpression();
+      this.insideAggregate = false;
+      column = this.columnOf(argument) ?? argument;
+    } else if (name.toUpperCase() !== "COUNT") {
+      this.error(`${name.toUpperCase()} 不支持 *`);
+    }
+    this.expectOperator(")");
+    return createAggregate(name, column, distinct);
+  }
+
+  /**
+   * 条件或排序的左操作数：列名，或（在 HAVING、ORDER BY 中）聚合函数。
+   * 聚合函数以其规范化文本作为列名，在分组结果行中查找。
+   */
+  private parseOperand(): string {
+    if (!this.isAggregateCall()) {
+      return this.parseColumnName();
+    }
+    if (!this.allowAggregates) {
+      this.error("聚合函数只能用于 SELECT 列表、HAVING 和 ORDER BY");
+    }
+    const aggregate = this.parseAggregate();
+    this.referencedAggregates.push(aggregate);
+    return aggregate.toString();
+  }
+
+  private parseCondition(): ConditionExpression {
+    let left = this.parseAndCondition();
+    while (this.matchKeyword("OR")) {
+      left = new OrCondition(left, this.parseAndCondition());
+    }
+    return left;
+  }
+
+  private parseAndCondition(): ConditionExpression {
+    let left = this.parseNotCondition();
+    while (this.matchKeyword("AND")) {
+      left = new AndCondition(left, this.parseNotCondition());
+    }
+    return left;
+  }
+
+  private parseNotCondition(): ConditionExpression {
+    if (this.matchKeyword("NOT")) {
+      return new NotCondition(this.parseNotCondition());
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): ConditionExpression {
+    const token = this.peek();
+    if (token.type !== "operator" || token.value !== "(") {
+      return this.parseComparison();
+    }
+
+    const state = this.saveState();
+    try {
+      this.advance();
+      const condition = this.parseCondition();
+      this.expectOperator(")");
+      return condition;
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+      // 两种解析都失败时，报告走得更远的那个错误
+      const failedAt = this.current;
+      this.restoreState(state);
+      try {
+        return this.parseComparison();
+      } catch (second) {
+        throw second instanceof ParseError && this.current < failedAt
+          ? error
+          : second;
+      }
+    }
+  }
+
+  /**
+   * 语法分析的回退点：位置以及解析过程中收集的各种引用
+   */
+  private saveState(): number[] {
+    return [
+      this.current,
+      this.columnReferences.length,
+      this.parameters.length,
+      this.referencedAggregates.length,
+    ];
+  }
+
+  private restoreState([current, columns, parameters, aggregates]: number[]) {
+    this.current = current;
+    this.columnReferences.length = columns;
+    this.parameters.length = parameters;
+    this.referencedAggregates.length = aggregates;
+  }
+
+  /**
+   * 单独的列（或聚合函数）作为条件的操作数时返回其列名，以便使用索引和
+   * 哈希连接；其他表达式返回 undefined
+   */
+  private columnOf(expression: ScalarExpression): string | undefined {
+    return expression instanceof ColumnReferenceExpression ||
+      expression instanceof AggregateReferenceExpression
+      ? expression.toString()
+      : undefined;
+  }
+
+  private parseComparison(): ConditionExpression {
+    const left = this.parseExpression();
+    const leftColumn = this.columnOf(left);
+    const column: SQLOperand = leftColumn ?? left;
+
+    if (this.matchKeyword("IS")) {
+      const negated = this.matchKeyword("NOT");
+      this.expectKeyword("NULL");
+      const condition = new IsNullCondition(column);
+      return negated ? new NotCondition(condition) : condition;
+    }
+
+    const negated = this.matchKeyword("NOT");
+    let condition: ConditionExpression;
+    if (this.matchKeyword("IN")) {
+      this.expectOperator("(");
+      const values = [this.parseComparedValue(leftColumn)];
+      while (this.matchOperator(",")) {
+        values.push(this.parseComparedValue(leftColumn));
+      }
+      this.expectOperator(")");
+      condition = new InCondition(column, values);
+    } else if (this.matchKeyword("BETWEEN")) {
+      const low = this.parseComparedValue(leftColumn);
+      this.expectKeyword("AND");
+      const high = this.parseComparedValue(leftColumn);
+      condition = new BetweenCondition(column, low, high);
+    } else if (this.matchKeyword("LIKE")) {
+      const pattern = this.peek();
+      let value: any;
+      if (pattern.type === "parameter") {
+        value = this.parseParameter();
+      } else {
+        if (pattern.type !== "string") {
+          this.expecting("字符串", "占位符");
+          this.error("LIKE 之后需要字符串模式");
+        }
+        this.advance();
+        value = pattern.value;
+      }
+      condition =
+        leftColumn !== undefined
+          ? new WhereExpression(leftColumn, "LIKE", value)
+          : new ScalarComparisonCondition(
+              left,
+              "LIKE",
+              new LiteralValueExpression(value)
+            );
+    } else if (negated) {
+      return this.error("NOT 之后需要 IN、BETWEEN 或 LIKE");
+    } else {
+      const operator = this.peek();
+      if (
+        operator.type !== "operator" ||
+        !SQLParser.COMPARISON_OPERATORS.includes(operator.value)
+      ) {
+        this.expecting(
+          ...SQLParser.COMPARISON_OPERATORS.map((op) => `"${op}"`)
+        );
+        this.error("需要比较运算符");
+      }
+      this.advance();
+      const valueToken = this.peek();
+      const right = this.parseExpression();
+      const rightColumn = this.columnOf(right);
+      if (leftColumn !== undefined && rightColumn !== undefined) {
+        condition = new ColumnComparisonCondition(
+          leftColumn,
+          operator.value,
+          rightColumn
+        );
+      } else if (
+        leftColumn !== undefined &&
+        right instanceof LiteralValueExpression
+      ) {
+        condition = new WhereExpression(
+          leftColumn,
+          operator.value,
+          this.coerceOperand(leftColumn, right.getValue(), valueToken)
+        );
+      } else {
+        condition = new ScalarComparisonCondition(left, operator.value, right);
+      }
+    }
+
+    return negated ? new NotCondition(condition) : condition;
+  }
+
+  /**
+   * 解析与列比较的常量（IN 列表、BETWEEN 的上下界）
+   */
+  private parseComparedValue(column: string | undefined): any {
+    const token = this.peek();
+    const value = this.parseValue();
+    return column === undefined
+      ? value
+      : this.coerceOperand(column, value, token);
+  }
+
+  /**
+   * 列属于带表结构的表时，把与它比较的常量转换为列的类型，无法转换时报告
+   * 错误；占位符在取值时转换。其他列（没有表结构、嵌套字段）保持原值。
+   */
+  private coerceOperand(column: string, value: any, token: SQLToken): any {
+    const found = this.schemaOf(column);
+    if (!found) {
+      return value;
+    }
+    const [schema, name] = found;
+    if (value instanceof SQLParameter) {
+      return new CoercedSQLParameter(value, (bound) =>
+        schema.coerceOperand(name, bound)
+      );
+    }
+    try {
+      return schema.coerceOperand(name, value);
+    } catch (error) {
+      return this.errorAt(token, (error as Error).message);
+    }
+  }
+
+  /**
+   * 查找列所属的表结构及其在表中的列名
+   */
+  private schemaOf(column: string): [TableSchema, string] | undefined {
+    if (!this.context) {
+      return undefined;
+    }
+    const context = this.context;
+    const parts = column.split(".");
+    let references = this.scope;
+    if (parts.length === 2) {
+      references = this.scope.filter(
+        (reference) => qualifierOf(reference) === parts[0]
+      );
+    }
+    const name = parts[parts.length - 1];
+    if (parts.length > 2 || references.length === 0) {
+      return undefined;
+    }
+    for (const reference of references) {
+      const schema = context.getSchema(reference.table);
+      if (schema && schema.hasColumn(name)) {
+        return [schema, name];
+      }
+    }
+    return undefined;
+  }
+
+  private parseExpression(): ScalarExpression {
+    let left = this.parseTerm();
+    let operator: string | undefined;
+    while ((operator = this.matchAnyOperator(["+", "-", "||"]))) {
+      left = new BinaryScalarExpression(
+        operator as ScalarOperator,
+        left,
+        this.parseTerm(),
+        this.calculator
+      );
+    }
+    return left;
+  }
+
+  private parseTerm(): ScalarExpression {
+    let left = this.parseUnary();
+    let operator: string | undefined;
+    while ((operator = this.matchAnyOperator(["*", "/", "%"]))) {
+      left = new BinaryScalarExpression(
+        operator as ScalarOperator,
+        left,
+        this.parseUnary(),
+        this.calculator
+      );
+    }
+    return left;
+  }
+
+  /**
+   * 负号作用于数字常量时直接折叠为负数常量
+   */
+  private parseUnary(): ScalarExpression {
+    if (!this.matchOperator("-")) {
+      return this.parsePrimary();
+    }
+    const operand = this.parseUnary();
+    if (
+      operand instanceof LiteralValueExpression &&
+      typeof operand.getValue() === "number"
+    ) {
+      return new LiteralValueExpression(-operand.getValue());
+    }
+    return new UnaryMinusExpression(operand, this.calculator);
+  }
+
+  private parsePrimary(): ScalarExpression {
+    const token = this.peek();
+    if (this.matchOperator("(")) {
+      const expression = this.parseExpression();
+      this.expectOperator(")");
+      return expression;
+    }
+    if (this.isAggregateCall()) {
+      if (this.insideAggregate) {
+        this.error("聚合函数不能嵌套");
+      }
+      if (!this.allowAggregates) {
+        this.error("聚合函数只能用于 SELECT 列表、HAVING 和 ORDER BY");
+      }
+      const aggregate = this.parseAggregate();
+      this.referencedAggregates.push(aggregate);
+      return new AggregateReferenceExpression(aggregate);
+    }
+    if (token.type === "identifier") {
+      const next = this.tokens[this.current + 1];
+      return next.type === "operator" && next.value === "("
+        ? this.parseFunctionCall()
+        : new ColumnReferenceExpression(this.parseColumnName());
+    }
+    const isValue =
+      token.type === "string" ||
+      token.type === "number" ||
+      token.type === "parameter" ||
+      (token.type === "keyword" &&
+        ["NULL", "TRUE", "FALSE"].includes(token.value));
+    if (!isValue) {
+      this.expecting("列名", "常量");
+      this.error("需要列名、常量或表达式");
+    }
+    return new LiteralValueExpression(this.parseValue());
+  }
+
+  private parseFunctionCall(): ScalarFunctionExpression {
+    const token = this.advance();
+    const name = token.value.toUpperCase();
+    const fn = resolveSQLFunction(token.value, this.calculator);
+    if (!fn) {
+      return this.errorAt(token, `未知的函数: ${name}`);
+    }
+    this.expectOperator("(");
+    const args: ScalarExpression[] = [];
+    if (!this.matchOperator(")")) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.matchOperator(","));
+      this.expectOperator(")");
+    }
+    if (args.length < fn.minArity || args.length > fn.maxArity) {
+      this.errorAt(
+        token,
+        `函数 ${name} 需要${describeArity(fn)}个参数，实际传入${args.length}个`
+      );
+    }
+    return new ScalarFunctionExpression(name, fn, args);
+  }
+
+  private parseValue(): any {
+    const token = this.peek();
+    if (token.type === "parameter") {
+      return this.parseParameter();
+    }
+    if (token.type === "string") {
+      this.advance();
+      return token.value;
+    }
+    if (this.matchKeyword("NULL")) {
+      return null;
+    }
+    if (this.matchKeyword("TRUE")) {
+      return true;
+    }
+    if (this.matchKeyword("FALSE")) {
+      return false;
+    }
+    const negative = this.matchOperator("-");
+    const number = this.peek();
+    if (number.type !== "number") {
+      this.expecting(...(negative ? ["数字"] : ["字符串", "数字", "占位符"]));
+      return this.error("需要字符串、数字、布尔值或 NULL");
+    }
+    this.advance();
+    const value = parseFloat(number.value);
+    return negative ? -value : value;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === "keyword" && token.value === keyword) {
+      this.advance();
+      return true;
+    }
+    this.expecting(keyword);
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      this.error(`需要关键字 ${keyword}`);
+    }
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === operator) {
+      this.advance();
+      return true;
+    }
+    this.expecting(`"${operator}"`);
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      this.error(`需要 "${operator}"`);
+    }
+  }
+
+  private matchAnyOperator(operators: string[]): string | undefined {
+    const token = this.peek();
+    if (token.type === "operator" && operators.includes(token.value)) {
+      this.advance();
+      return token.value;
+    }
+    this.expecting(...operators.map((operator) => `"${operator}"`));
+    return undefined;
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== "identifier") {
+      this.expecting("标识符");
+      return this.error("需要标识符");
+    }
+    this.advance();
+    return token.value;
+  }
+
+  private peek(): SQLToken {
+    return this.tokens[this.current];
+  }
+
+  private advance(): SQLToken {
+    const token = this.tokens[this.current];
+    if (token.type !== "eof") {
+      this.current++;
+    }
+    return token;
+  }
+
+  /**
+   * 记录当前位置可以接受的内容；位置前进后重新开始记录
+   */
+  private expecting(...items: string[]): void {
+    if (this.expectedAt !== this.current) {
+      this.expectedAt = this.current;
+      this.expected = [];
+    }
+    for (const item of items) {
+      if (!this.expected.includes(item)) {
+        this.expected.push(item);
+      }
+    }
+  }
+
+  /**
+   * 当前位置的语法错误，附带在此处尝试过的内容
+   */
+  private error(message: string): never {
+    const expected = this.expectedAt === this.current ? this.expected : [];
+    return this.errorAt(this.peek(), message, expected);
+  }
+
+  private errorAt(
+    token: SQLToken,
+    message: string,
+    expected: string[] = []
+  ): never {
+    let display = `"${token.value}"`;
+    if (token.type === "eof") {
+      display = "语句结尾";
+    } else if (token.type === "parameter") {
+      display = token.value ? `":${token.value}"` : `"?"`;
+    }
+    throw new ParseError(
+      message,
+      display,
+      token.line,
+      token.column,
+      [...expected],
+      this.source
+    );
+  }
+}
+
+/**
+ * 表数据文件格式：CSV（RFC 4180）、JSON 数组或 NDJSON（每行一个 JSON 对象）
+ */
+type TableFileFormat = "csv" | "json" | "ndjson";
+
+// 未加引号的 CSV 字段按这些规则推断类型，有前导零的整数部分（如邮编
+// 007）保持为字符串
+const CSV_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const CSV_BOOLEAN = /^(?:true|false)$/i;
+
+/**
+ * 推断未加引号的 CSV 字段的类型：空字段为 NULL，其次是数字、布尔值，
+ * 其余为字符串。加引号的字段总是字符串。
+ */
+function inferCSVValue(text: string): any {
+  if (text === "") {
+    return null;
+  }
+  if (CSV_NUMBER.test(text)) {
+    return Number(text);
+  }
+  if (CSV_BOOLEAN.test(text)) {
+    return text.toLowerCase() === "true";
+  }
+  return text;
+}
+
+/**
+ * 解析 RFC 4180 CSV：第一条记录为表头，字段可以用双引号包围，
+ * 引号内可以包含逗号、换行，"" 表示一个双引号。行尾可以是 CRLF 或 LF。
+ * 空行被忽略；但只有一列时空行就是该列的空字段（NULL）。
+ */
+function parseCSV(text: string): any[] {
+  const records: { fields: any[]; line: number; blank: boolean }[] = [];
+  let fields: any[] = [];
+  let position = 0;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    // 只含一个空字段的记录是空行，表头之前的空行直接忽略
+    const blank = fields.length === 1 && fields[0] === null;
+    if (!blank || records.length > 0) {
+      records.push({ fields, line: recordLine, blank });
+    }
+    fields = [];
+    recordLine = line;
+  };
+
+  while (position < text.length) {
+    if (text[position] === '"') {
+      const start = line;
+      let value = "";
+      position++;
+      while (true) {
+        if (position >= text.length) {
+          throw new Error(`CSV 第${start}行的引号没有闭合`);
+        }
+        const char = text[position];
+        if (char === '"') {
+          if (text[position + 1] === '"') {
+            value += '"';
+            position += 2;
+            continue;
+          }
+          position++;
+          break;
+        }
+        if (char === "\n") {
+          line++;
+        }
+        value += char;
+        position++;
+      }
+      fields.push(value);
+    } else {
+      let end = position;
+      while (end < text.length && !/[,\r\n"]/.test(text[end])) {
+        end++;
+      }
+      if (text[end] === '"') {
+        throw new Error(`CSV 第${line}行：未加引号的字段中不能出现引号`);
+      }
+      fields.push(inferCSVValue(text.slice(position, end)));
+      position = end;
+    }
+
+    const next = text[position];
+    if (next === ",") {
+      position++;
+      if (position >= text.length) {
+        fields.push(null);
+      }
+    } else if (next === "\r" || next === "\n") {
+      position += next === "\r" && text[position + 1] === "\n" ? 2 : 1;
+      line++;
+      endRecord();
+    } else if (next !== undefined) {
+      throw new Error(`CSV 第${line}行：引号之后需要逗号或换行`);
+    }
+  }
+  if (fields.length > 0) {
+    endRecord();
+  }
+
+  if (records.length === 0) {
+    return [];
+  }
+  const header = records[0].fields.map(String);
+  return records
+    .slice(1)
+    .filter(({ blank }) => !blank || header.length === 1)
+    .map(({ fields, line }) => {
+      if (fields.length !== header.length) {
+        throw new Error(
+          `CSV 第${line}行有${fields.length}个字段，表头有${header.length}个`
+        );
+      }
+      const row: any = {};
+      header.forEach((column, index) => {
+        row[column] = fields[index];
+      });
+      return row;
+    });
+}
+
+/**
+ * 生成 RFC 4180 CSV（CRLF 换行）。NULL 写成空字段；会被推断成其他类型的
+ * 字符串（如 "42"、"true"、空串）加引号，保证读回时仍是字符串。
+ */
+function formatCSV(
+  rows: any[],
+  columns: string[] = tableColumns(rows)
+): string {
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+  const formatField = (value: any): string => {
+    if (isNull(value)) {
+      return "";
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return /[",\r\n]/.test(text) || inferCSVValue(text) !== text
+      ? quote(text)
+      : text;
+  };
+
+  const lines = [columns.map(formatField).join(",")];
+  rows.forEach((row) => {
+    lines.push(columns.map((column) => formatField(row[column])).join(","));
+  });
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * 解析 JSON 表：顶层必须是对象数组
+ */
+function parseJSONTable(text: string): any[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("JSON 表数据必须是数组");
+  }
+  data.forEach((row, index) => checkJSONRow(row, `第${index + 1}个元素`));
+  return data;
+}
+
+function formatJSONTable(rows: any[]): string {
+  return JSON.stringify(rows, null, 2) + "\n";
+}
+
+/**
+ * 解析 NDJSON：每个非空行是一个 JSON 对象
+ */
+function parseNDJSON(text: string): any[] {
+  const rows: any[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") {
+      return;
+    }
+    let row: any;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`NDJSON 第${index + 1}行: ${(error as Error).message}`);
+    }
+    checkJSONRow(row, `第${index + 1}行`);
+    rows.push(row);
+  });
+  return rows;
+}
+
+function formatNDJSON(rows: any[]): string {
+  return rows.map((row) => JSON.stringify(row) + "\n").join("");
+}
+
+function checkJSONRow(row: any, position: string): void {
+  if (row === null || typeof row !== "object" || Array.isArray(row)) {
+    throw new Error(`${position}不是对象`);
+  }
+}
+
+/**
+ * 按扩展名判断文件格式：.csv、.json、.ndjson / .jsonl
+ */
+function tableFileFormat(path: string): TableFileFormat {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  switch (extension) {
+    case "csv":
+      return "csv";
+    case "json":
+      return "json";
+    case "ndjson":
+    case "jsonl":
+      return "ndjson";
+    default:
+      throw new Error(`无法根据扩展名判断文件格式: ${path}`);
+  }
+}
+
+function readTableFile(
+  path: string,
+  format: TableFileFormat = tableFileFormat(path)
+): any[] {
+  const text = fs.readFileSync(path, "utf8");
+  switch (format) {
+    case "csv":
+      return parseCSV(text);
+    case "json":
+      return parseJSONTable(text);
+    case "ndjson":
+      return parseNDJSON(text);
+  }
+}
+
+function writeTableFile(
+  path: string,
+  rows: any[],
+  columns: string[] = tableColumns(rows),
+  format: TableFileFormat = tableFileFormat(path)
+): void {
+  let text: string;
+  switch (format) {
+    case "csv":
+      text = formatCSV(rows, columns);
+      break;
+    case "json":
+      text = formatJSONTable(rows);
+      break;
+    case "ndjson":
+      text = formatNDJSON(rows);
+      break;
+  }
+  fs.writeFileSync(path, text, "utf8");
+}
+
+/**
+ * SQL参数：? 占位符用数组按顺序绑定，:name 占位符用对象按名称绑定
+ */
+type SQLParams = any[] | Record<string, any>;
+
+/**
+ * 预编译语句：只解析一次，可以用不同的参数反复执行
+ */
+class PreparedStatement {
+  private sql: string;
+  private expression: SQLExpression;
+  private parameters: SQLParameter[];
+  private context: SQLContext;
+
+  constructor(
+    sql: string,
+    expression: SQLExpression,
+    parameters: SQLParameter[],
+    context: SQLContext
+  ) {
+    this.sql = sql;
+    this.expression = expression;
+    this.parameters = parameters;
+    this.context = context;
+  }
+
+  getSQL(): string {
+    return this.sql;
+  }
+
+  getParameterCount(): number {
+    return this.parameters.length;
+  }
+
+  /**
+   * 执行查询（SELECT、EXPLAIN）并返回结果行；其他语句返回空数组，
+   * 其受影响的行数由 executeUpdate 返回
+   */
+  execute(params: SQLParams = []): any[] {
+    const result = this.run(params);
+    return Array.isArray(result) ? result : [];
+  }
+
+  /**
+   * 执行 INSERT、UPDATE、DELETE、COPY 等语句，返回受影响的行数
+   */
+  executeUpdate(params: SQLParams = []): number {
+    if (this.isQuery()) {
+      throw new Error("查询语句请使用 execute");
+    }
+    const result = this.run(params);
+    return typeof result === "number" ? result : 0;
+  }
+
+  isQuery(): boolean {
+    return (
+      this.expression instanceof SelectExpression ||
+      this.expression instanceof ExplainExpression
+    );
+  }
+
+  private run(params: SQLParams): SQLResult {
+    this.bind(params);
+    return this.expression.interpret(this.context);
+  }
+
+  private bind(params: SQLParams): void {
+    if (Array.isArray(params)) {
+      const named = this.parameters.find(
+        (parameter) => typeof parameter.getKey() !== "number"
+      );
+      if (named) {
+        throw new Error(`参数 ${named} 需要按名称绑定`);
+      }
+      if (params.length !== this.parameters.length) {
+        throw new Error(
+          `需要 ${this.parameters.length} 个参数，实际传入 ${params.length} 个`
+        );
+      }
+      this.parameters.forEach((parameter, index) =>
+        parameter.bind(checkSQLParam(parameter, params[index]))
+      );
+      return;
+    }
+
+    this.parameters.forEach((parameter) => {
+      const key = parameter.getKey();
+      if (typeof key === "number") {
+        throw new Error(`参数 ${parameter} 需要按顺序绑定`);
+      }
+      if (!Object.prototype.hasOwnProperty.call(params, key)) {
+        throw new Error(`缺少参数: ${parameter}`);
+      }
+      parameter.bind(checkSQLParam(parameter, params[key]));
+    });
+  }
+}
+
+/**
+ * 参数只能是字符串、有限数字、布尔值或 NULL
+ */
+function checkSQLParam(parameter: SQLParameter, value: any): any {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && isFinite(value))
+  ) {
+    return value;
+  }
+  throw new Error(`参数 ${parameter} 的值无效: ${String(value)}`);
+}
+
+/**
+ * 简单SQL解释器
+ */
+class SQLInterpreter {
+  private context: SQLContext;
+  private tokenizer: SQLTokenizer;
+
+  constructor() {
+    this.context = new SQLContext();
+    this.tokenizer = new SQLTokenizer();
+  }
+
+  addTable(name: string, data: any[]): void {
+    this.context.addTable(name, data);
+  }
+
+  /**
+   * 注册可在 SQL 中调用的数值函数（名称不区分大小写），与计算器的函数库共用
+   */
+  registerFunction(
+    name: string,
+    implementation: (...args: number[]) => number,
+    minArity: number = implementation.length,
+    maxArity: number = minArity
+  ): void {
+    this.context
+      .getCalculator()
+      .registerFunction(name.toLowerCase(), implementation, minArity, maxArity);
+  }
+
+  /**
+   * 执行一条语句并返回查询结果行，其他语句返回空数组。
+   * params 绑定语句中的 ? 或 :name 占位符。
+   */
+  execute(sql: string, params?: SQLParams): any[] {
+    return this.prepare(sql).execute(params);
+  }
+
+  /**
+   * 执行 INSERT / UPDATE / DELETE / COPY 等语句，返回受影响的行数
+   */
+  executeUpdate(sql: string, params?: SQLParams): number {
+    return this.prepare(sql).executeUpdate(params);
+  }
+
+  /**
+   * 解析语句并返回可重复执行的预编译语句
+   */
+  prepare(sql: string): PreparedStatement {
+    const tokens = this.tokenizer.tokenize(sql);
+    const parser = new SQLParser(tokens, this.context, sql);
+    const expression = parser.parse();
+    return new PreparedStatement(
+      sql,
+      expression,
+      parser.getParameters(),
+      this.context
+    );
+  }
+
+  /**
+   * 设置 COPY、loadTable、saveTable 可以读写的目录，未设置时不允许读写文件
+   */
+  setFileDirectory(directory: string): void {
+    this.context.setFileDirectory(directory);
+  }
+
+  /**
+   * 从文件加载表，等价于 COPY name FROM 'path'，返回加载的行数
+   */
+  loadTable(name: string, path: string): number {
+    return new CopyExpression(name, "FROM", path).interpret(this.context);
+  }
+
+  /**
+   * 把表保存到文件，等价于 COPY name TO 'path'，返回写入的行数
+   */
+  saveTable(name: string, path: string): number {
+    return new CopyExpression(name, "TO", path).interpret(this.context);
+  }
+
+  /**
+   * 在事务中执行 work：正常返回时提交，抛出异常时回滚并重新抛出，
+   * 保证失败的一批语句不会留下部分修改
+   */
+  transaction<T>(work: (interpreter: SQLInterpreter) => T): T {
+    this.context.begin();
+    try {
+      const result = work(this);
+      this.context.commit();
+      return result;
+    } catch (error) {
+      this.context.rollback();
+      throw error;
+    }
+  }
+}
+
+// =============================================================================
 // 示例3：正则表达式解释器
 // =============================================================================
 
 /**
- * 正则表达式上下文
+ * 正则表达式上下文
+ */
+class RegexContext {
+  private input: string;
+  private position: number;
+  // 捕获组的 [开始, 结束) 位置，下标为组号
+  private captures: ([number, number] | undefined)[] = [];
+
+  constructor(input: string) {
+    this.input = input;
+    this.position = 0;
+  }
+
+  getCapture(index: number): [number, number] | undefined {
+    return this.captures[index];
+  }
+
+  setCapture(index: number, span: [number, number] | undefined): void {
+    this.captures[index] = span;
+  }
+
+  clearCaptures(): void {
+    this.captures = [];
+  }
+
+  getCurrentChar(): string {
+    return this.position < this.input.length ? this.input[this.position] : "";
+  }
+
+  advance(): void {
+    this.position++;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  setPosition(position: number): void {
+    this.position = position;
+  }
+
+  isAtEnd(): boolean {
+    return this.position >= this.input.length;
+  }
+
+  getInput(): string {
+    return this.input;
+  }
+}
+
+/**
+ * 匹配成功后的后续：以匹配结束的位置调用，返回 false 表示要求回溯
+ */
+type RegexContinuation = (position: number) => boolean;
+
+type NFAStateKind =
+  | "consume"
+  | "split"
+  | "assert"
+  | "save"
+  | "reset"
+  | "mark"
+  | "progress"
+  | "match";
+
+/**
+ * Thompson NFA 的状态
+ *
+ * - consume：读入一个满足 test 的字符后转到 out
+ * - split：空转移到 out 和 alt，out 优先
+ * - assert：零宽断言成立时空转移到 out
+ * - save / reset：记录捕获组位置 / 清空被重复部分包含的捕获组
+ * - mark / progress：记录重复一次迭代的起点 / 迭代没有前进时终止该线程
+ */
+interface NFAState {
+  id: number;
+  kind: NFAStateKind;
+  out: NFAState | null;
+  alt: NFAState | null;
+  test?: (code: number) => boolean;
+  anchor?: AnchorKind;
+  slot?: number;
+  groups?: number[];
+}
+
+/**
+ * NFA 构造器：负责分配状态编号和寄存器槽位
+ *
+ * 寄存器 2n、2n+1 保存第 n 个捕获组的起止位置（第 0 组为整个匹配），
+ * 之后的槽位供重复迭代记录起点使用。
+ */
+class NFABuilder {
+  private static readonly MAX_STATES = 100000;
+
+  private stateCount: number = 0;
+  private slotCount: number;
+
+  constructor(groupCount: number) {
+    this.slotCount = 2 * (groupCount + 1);
+  }
+
+  state(
+    kind: NFAStateKind,
+    out: NFAState | null = null,
+    options: Partial<NFAState> = {}
+  ): NFAState {
+    if (this.stateCount >= NFABuilder.MAX_STATES) {
+      throw new Error("正则表达式过大，无法编译为自动机");
+    }
+    return { ...options, id: this.stateCount++, kind, out, alt: null };
+  }
+
+  allocateSlot(): number {
+    return this.slotCount++;
+  }
+
+  getStateCount(): number {
+    return this.stateCount;
+  }
+
+  getSlotCount(): number {
+    return this.slotCount;
+  }
+}
+
+/**
+ * 正则表达式抽象表达式
+ *
+ * 采用续延传递（continuation-passing）的回溯匹配：matchFrom 在 position 处
+ * 依次尝试本节点所有可能的匹配方式，每得到一种就以结束位置调用 next，
+ * next 返回 false 时继续尝试下一种，从而实现完整的回溯。
+ * toNFA 则把节点编译为 Thompson NFA 片段，供自动机引擎使用。
+ */
+abstract class RegexExpression {
+  abstract matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean;
+
+  /**
+   * 编译为 NFA 片段：返回片段的起始状态，片段匹配完成后转到 next
+   */
+  abstract toNFA(builder: NFABuilder, next: NFAState): NFAState;
+
+  /**
+   * 只匹配单个字符的表达式返回判断该字符的函数，供重复匹配用循环代替递归，
+   * 其他表达式返回 undefined
+   */
+  characterTest(): ((code: number) => boolean) | undefined {
+    return undefined;
+  }
+
+  /**
+   * 从上下文的当前位置匹配，成功时把位置推进到第一种匹配方式的末尾
+   */
+  match(context: RegexContext): boolean {
+    return this.matchFrom(context, context.getPosition(), (end) => {
+      context.setPosition(end);
+      return true;
+    });
+  }
+}
+
+/**
+ * 字符区间（UTF-16 码元，闭区间）
  */
-class RegexContext {
-  private input: string;
-  private position: number;
+interface CharacterRange {
+  from: number;
+  to: number;
+}
 
-  constructor(input: string) {
-    this.input = input;
-    this.position = 0;
+function charRange(from: string, to: string = from): CharacterRange {
+  return { from: from.charCodeAt(0), to: to.charCodeAt(0) };
+}
+
+// \d、\w、\s 与 . 所用的字符集，和原生 RegExp 一致
+const DIGIT_RANGES: CharacterRange[] = [charRange("0", "9")];
+const WORD_RANGES: CharacterRange[] = [
+  charRange("0", "9"),
+  charRange("A", "Z"),
+  charRange("_"),
+  charRange("a", "z"),
+];
+const SPACE_RANGES: CharacterRange[] = [
+  charRange("\t", "\r"),
+  charRange(" "),
+  charRange("\u00a0"),
+  charRange("\u1680"),
+  charRange("\u2000", "\u200a"),
+  charRange("\u2028", "\u2029"),
+  charRange("\u202f"),
+  charRange("\u205f"),
+  charRange("\u3000"),
+  charRange("\ufeff"),
+];
+const LINE_TERMINATOR_RANGES: CharacterRange[] = [
+  charRange("\n"),
+  charRange("\r"),
+  charRange("\u2028", "\u2029"),
+];
+
+function toRanges(item: number | CharacterRange[]): CharacterRange[] {
+  return typeof item === "number" ? [{ from: item, to: item }] : item;
+}
+
+function inRanges(code: number, ranges: CharacterRange[]): boolean {
+  return ranges.some(({ from, to }) => code >= from && code <= to);
+}
+
+/**
+ * 求区间集合在 0~0xFFFF 上的补集
+ */
+function complementRanges(ranges: CharacterRange[]): CharacterRange[] {
+  const sorted = [...ranges].sort((a, b) => a.from - b.from);
+  const result: CharacterRange[] = [];
+  let start = 0;
+  sorted.forEach(({ from, to }) => {
+    if (from > start) {
+      result.push({ from: start, to: from - 1 });
+    }
+    start = Math.max(start, to + 1);
+  });
+  if (start <= 0xffff) {
+    result.push({ from: start, to: 0xffff });
   }
+  return result;
+}
 
-  getCurrentChar(): string {
-    return this.position < this.input.length ? this.input[this.position] : "";
+function isWordChar(input: string, position: number): boolean {
+  return (
+    position >= 0 &&
+    position < input.length &&
+    inRanges(input.charCodeAt(position), WORD_RANGES)
+  );
+}
+
+/**
+ * 字符匹配表达式
+ */
+class CharacterExpression extends RegexExpression {
+  private char: string;
+
+  constructor(char: string) {
+    super();
+    this.char = char;
+  }
+
+  getChar(): string {
+    return this.char;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    return context.getInput()[position] === this.char && next(position + 1);
+  }
+
+  characterTest(): (code: number) => boolean {
+    const code = this.char.charCodeAt(0);
+    return (c) => c === code;
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    const code = this.char.charCodeAt(0);
+    return builder.state("consume", next, { test: (c) => c === code });
+  }
+}
+
+/**
+ * 点号匹配表达式（匹配换行符以外的任意字符）
+ */
+class DotExpression extends RegexExpression {
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    const input = context.getInput();
+    return (
+      position < input.length &&
+      !inRanges(input.charCodeAt(position), LINE_TERMINATOR_RANGES) &&
+      next(position + 1)
+    );
+  }
+
+  characterTest(): (code: number) => boolean {
+    return (code) => !inRanges(code, LINE_TERMINATOR_RANGES);
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    return builder.state("consume", next, {
+      test: (code) => !inRanges(code, LINE_TERMINATOR_RANGES),
+    });
+  }
+}
+
+/**
+ * 字符类表达式：[a-z]、[^0-9] 以及 \d、\w、\s 等
+ */
+class CharacterClassExpression extends RegexExpression {
+  private ranges: CharacterRange[];
+  private negated: boolean;
+
+  constructor(ranges: CharacterRange[], negated: boolean = false) {
+    super();
+    this.ranges = ranges;
+    this.negated = negated;
+  }
+
+  /**
+   * 实际匹配的区间（取反时为补集）
+   */
+  getRanges(): CharacterRange[] {
+    return this.negated ? complementRanges(this.ranges) : this.ranges;
+  }
+
+  matches(code: number): boolean {
+    return inRanges(code, this.ranges) !== this.negated;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    const input = context.getInput();
+    return (
+      position < input.length &&
+      this.matches(input.charCodeAt(position)) &&
+      next(position + 1)
+    );
+  }
+
+  characterTest(): (code: number) => boolean {
+    return (code) => this.matches(code);
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    return builder.state("consume", next, {
+      test: (code) => this.matches(code),
+    });
+  }
+}
+
+type AnchorKind = "start" | "end" | "wordBoundary" | "notWordBoundary";
+
+/**
+ * 判断零宽断言所需的位置信息
+ */
+interface AnchorContext {
+  atStart: boolean;
+  atEnd: boolean;
+  previousIsWord: boolean;
+  currentIsWord: boolean;
+}
+
+/**
+ * 判断零宽断言在某个位置是否成立
+ */
+function testAnchor(kind: AnchorKind, context: AnchorContext): boolean {
+  switch (kind) {
+    case "start":
+      return context.atStart;
+    case "end":
+      return context.atEnd;
+    case "wordBoundary":
+      return context.previousIsWord !== context.currentIsWord;
+    case "notWordBoundary":
+      return context.previousIsWord === context.currentIsWord;
+  }
+}
+
+function anchorContextAt(input: string, position: number): AnchorContext {
+  return {
+    atStart: position === 0,
+    atEnd: position === input.length,
+    previousIsWord: isWordChar(input, position - 1),
+    currentIsWord: isWordChar(input, position),
+  };
+}
+
+/**
+ * 零宽断言：^、$、\b、\B
+ */
+class AnchorExpression extends RegexExpression {
+  private kind: AnchorKind;
+
+  constructor(kind: AnchorKind) {
+    super();
+    this.kind = kind;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    return (
+      testAnchor(this.kind, anchorContextAt(context.getInput(), position)) &&
+      next(position)
+    );
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    return builder.state("assert", next, { anchor: this.kind });
+  }
+}
+
+/**
+ * 序列匹配表达式
+ */
+class SequenceExpression extends RegexExpression {
+  private expressions: RegexExpression[];
+
+  constructor(expressions: RegexExpression[]) {
+    super();
+    this.expressions = expressions;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    const step = (index: number, current: number): boolean =>
+      index === this.expressions.length
+        ? next(current)
+        : this.expressions[index].matchFrom(context, current, (end) =>
+            step(index + 1, end)
+          );
+    return step(0, position);
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    return this.expressions.reduceRight(
+      (state, expression) => expression.toNFA(builder, state),
+      next
+    );
+  }
+}
+
+/**
+ * 选择匹配表达式（或）：先尝试左边，回溯时再尝试右边
+ */
+class AlternationExpression extends RegexExpression {
+  private left: RegexExpression;
+  private right: RegexExpression;
+
+  constructor(left: RegexExpression, right: RegexExpression) {
+    super();
+    this.left = left;
+    this.right = right;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    return (
+      this.left.matchFrom(context, position, next) ||
+      this.right.matchFrom(context, position, next)
+    );
+  }
+
+  characterTest(): ((code: number) => boolean) | undefined {
+    const left = this.left.characterTest();
+    const right = this.right.characterTest();
+    return left && right ? (code) => left(code) || right(code) : undefined;
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    const split = builder.state("split", this.left.toNFA(builder, next));
+    split.alt = this.right.toNFA(builder, next);
+    return split;
+  }
+}
+
+/**
+ * 重复匹配表达式：{min,max}，max 为 Infinity 表示不限次数。
+ * 贪婪模式先尽量多匹配，惰性模式先尽量少匹配；达到最少次数后，
+ * 匹配空串的迭代不再继续，以免无限循环。captures 为被重复部分包含的
+ * 捕获组，每次迭代开始时清空（以上均与原生 RegExp 相同）。
+ */
+class RepeatExpression extends RegexExpression {
+  private expression: RegexExpression;
+  private min: number;
+  private max: number;
+  private greedy: boolean;
+  private captures: number[];
+
+  constructor(
+    expression: RegexExpression,
+    min: number,
+    max: number,
+    greedy: boolean = true,
+    captures: number[] = []
+  ) {
+    super();
+    this.expression = expression;
+    this.min = min;
+    this.max = max;
+    this.greedy = greedy;
+    this.captures = captures;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    const test = this.expression.characterTest();
+    if (test) {
+      return this.matchCharacters(context.getInput(), position, test, next);
+    }
+    const attempt = (count: number, current: number): boolean => {
+      const more = () => {
+        if (count >= this.max) {
+          return false;
+        }
+        const saved = this.captures.map((index) => context.getCapture(index));
+        this.captures.forEach((index) => context.setCapture(index, undefined));
+        const matched = this.expression.matchFrom(
+          context,
+          current,
+          (end) =>
+            (end !== current || count < this.min) && attempt(count + 1, end)
+        );
+        if (!matched) {
+          this.captures.forEach((index, i) =>
+            context.setCapture(index, saved[i])
+          );
+        }
+        return matched;
+      };
+      const stop = () => count >= this.min && next(current);
+      return this.greedy ? more() || stop() : stop() || more();
+    };
+    return attempt(0, position);
+  }
+
+  /**
+   * 单个字符的重复用循环匹配，不为每次迭代占用一层调用栈：先数出最多能
+   * 匹配的字符数，再按贪婪或惰性的顺序依次尝试后续匹配
+   */
+  private matchCharacters(
+    input: string,
+    position: number,
+    test: (code: number) => boolean,
+    next: RegexContinuation
+  ): boolean {
+    const limit = Math.min(this.max, input.length - position);
+    let count = 0;
+    while (count < limit && test(input.charCodeAt(position + count))) {
+      count++;
+    }
+    if (this.greedy) {
+      for (let end = count; end >= this.min; end--) {
+        if (next(position + end)) {
+          return true;
+        }
+      }
+    } else {
+      for (let end = this.min; end <= count; end++) {
+        if (next(position + end)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 有上限的重复展开为 max 份：后 max-min 份可选，可选的迭代没有前进时
+   * 由 progress 状态终止；无上限时最后一份连回循环入口
+   */
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    const optional = (after: NFAState, loop?: NFAState): NFAState => {
+      const split = loop ?? builder.state("split");
+      const slot = builder.allocateSlot();
+      const check = builder.state("progress", loop ?? after, {
+        slot,
+      });
+      const body = builder.state(
+        "mark",
+        builder.state("reset", this.expression.toNFA(builder, check), {
+          groups: this.captures,
+        }),
+        { slot }
+      );
+      [split.out, split.alt] = this.greedy ? [body, after] : [after, body];
+      return split;
+    };
+
+    let state = next;
+    if (this.max === Infinity) {
+      const loop = builder.state("split");
+      state = optional(next, loop);
+    } else {
+      for (let count = this.min; count < this.max; count++) {
+        state = optional(state);
+      }
+    }
+    for (let count = 0; count < this.min; count++) {
+      state = builder.state("reset", this.expression.toNFA(builder, state), {
+        groups: this.captures,
+      });
+    }
+    return state;
+  }
+}
+
+/**
+ * 零次或多次匹配表达式（*）
+ */
+class ZeroOrMoreExpression extends RepeatExpression {
+  constructor(expression: RegexExpression) {
+    super(expression, 0, Infinity);
+  }
+}
+
+/**
+ * 分组表达式：(...) 与 (?:...)，index 为捕获组的组号，非捕获组为 undefined
+ */
+class GroupExpression extends RegexExpression {
+  private expression: RegexExpression;
+  private index?: number;
+
+  constructor(expression: RegexExpression, index?: number) {
+    super();
+    this.expression = expression;
+    this.index = index;
+  }
+
+  matchFrom(
+    context: RegexContext,
+    position: number,
+    next: RegexContinuation
+  ): boolean {
+    const index = this.index;
+    if (index === undefined) {
+      return this.expression.matchFrom(context, position, next);
+    }
+    return this.expression.matchFrom(context, position, (end) => {
+      const previous = context.getCapture(index);
+      context.setCapture(index, [position, end]);
+      if (next(end)) {
+        return true;
+      }
+      context.setCapture(index, previous);
+      return false;
+    });
+  }
+
+  characterTest(): ((code: number) => boolean) | undefined {
+    return this.index === undefined
+      ? this.expression.characterTest()
+      : undefined;
+  }
+
+  toNFA(builder: NFABuilder, next: NFAState): NFAState {
+    if (this.index === undefined) {
+      return this.expression.toNFA(builder, next);
+    }
+    const end = builder.state("save", next, { slot: 2 * this.index + 1 });
+    return builder.state("save", this.expression.toNFA(builder, end), {
+      slot: 2 * this.index,
+    });
+  }
+}
+
+/**
+ * 正则表达式递归下降语法分析器
+ *
+ * 文法：
+ *   alternation := sequence ("|" sequence)*
+ *   sequence    := (atom quantifier? | anchor)*
+ *   quantifier  := ("*" | "+" | "?" | "{" m ("," n?)? "}") "?"?
+ *   atom        := "(" ("?:")? alternation ")" | "[" "^"? classItem* "]"
+ *                | "." | "\" escape | 普通字符
+ *   anchor      := "^" | "$" | "\b" | "\B"
+ *
+ * 与原生 RegExp 一样，不构成量词的 "{" 以及单独的 "}"、"]" 按普通字符处理。
+ */
+class RegexParser {
+  private pattern: string;
+  private position: number = 0;
+  private groupCount: number = 0;
+
+  constructor(pattern: string) {
+    this.pattern = pattern;
+  }
+
+  /**
+   * 捕获组个数，parse 之后有效
+   */
+  getGroupCount(): number {
+    return this.groupCount;
+  }
+
+  parse(): RegexExpression {
+    const expression = this.parseAlternation();
+    if (this.position < this.pattern.length) {
+      this.error("多余的 )");
+    }
+    return expression;
+  }
+
+  private parseAlternation(): RegexExpression {
+    let expression = this.parseSequence();
+    while (this.peek() === "|") {
+      this.position++;
+      expression = new AlternationExpression(expression, this.parseSequence());
+    }
+    return expression;
+  }
+
+  private parseSequence(): RegexExpression {
+    const expressions: RegexExpression[] = [];
+    while (this.position < this.pattern.length) {
+      const char = this.peek();
+      if (char === "|" || char === ")") {
+        break;
+      }
+      const anchor = this.parseAnchor();
+      if (anchor) {
+        if (this.isQuantifier()) {
+          this.error("量词前缺少可重复的表达式");
+        }
+        expressions.push(anchor);
+        continue;
+      }
+      const firstGroup = this.groupCount + 1;
+      const atom = this.parseAtom();
+      const captures: number[] = [];
+      for (let index = firstGroup; index <= this.groupCount; index++) {
+        captures.push(index);
+      }
+      expressions.push(this.parseQuantifier(atom, captures));
+    }
+    return expressions.length === 1
+      ? expressions[0]
+      : new SequenceExpression(expressions);
+  }
+
+  private parseAnchor(): AnchorExpression | undefined {
+    const char = this.peek();
+    if (char === "^" || char === "$") {
+      this.position++;
+      return new AnchorExpression(char === "^" ? "start" : "end");
+    }
+    if (char === "\\" && (this.peek(1) === "b" || this.peek(1) === "B")) {
+      const kind = this.peek(1) === "b" ? "wordBoundary" : "notWordBoundary";
+      this.position += 2;
+      return new AnchorExpression(kind);
+    }
+    return undefined;
+  }
+
+  private parseQuantifier(
+    atom: RegexExpression,
+    captures: number[]
+  ): RegexExpression {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+    if (char === "*" || char === "+" || char === "?") {
+      this.position++;
+      min = char === "+" ? 1 : 0;
+      max = char === "?" ? 1 : Infinity;
+    } else {
+      const braces = this.matchBraces();
+      if (!braces) {
+        return atom;
+      }
+      [min, max] = braces;
+    }
+    const greedy = this.peek() !== "?";
+    if (!greedy) {
+      this.position++;
+    }
+    if (this.isQuantifier()) {
+      this.error("量词前缺少可重复的表达式");
+    }
+    return new RepeatExpression(atom, min, max, greedy, captures);
+  }
+
+  private isQuantifier(): boolean {
+    const char = this.peek();
+    if (char === "*" || char === "+" || char === "?") {
+      return true;
+    }
+    const start = this.position;
+    const braces = this.matchBraces();
+    this.position = start;
+    return braces !== undefined;
+  }
+
+  /**
+   * 匹配 {m}、{m,}、{m,n}，不构成量词时不消耗字符
+   */
+  private matchBraces(): [number, number] | undefined {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.position));
+    if (!match) {
+      return undefined;
+    }
+    const min = parseInt(match[1], 10);
+    const max =
+      match[2] === undefined
+        ? min
+        : match[3] === ""
+        ? Infinity
+        : parseInt(match[3], 10);
+    if (max < min) {
+      this.error("量词 {m,n} 中 m 不能大于 n");
+    }
+    this.position += match[0].length;
+    return [min, max];
+  }
+
+  private parseAtom(): RegexExpression {
+    const char = this.pattern[this.position];
+    if (this.isQuantifier()) {
+      this.error("量词前缺少可重复的表达式");
+    }
+    this.position++;
+    switch (char) {
+      case "(": {
+        let index: number | undefined;
+        if (this.pattern.startsWith("?:", this.position)) {
+          this.position += 2;
+        } else if (this.peek() === "?") {
+          this.error("不支持的分组语法");
+        } else {
+          index = ++this.groupCount;
+        }
+        const expression = this.parseAlternation();
+        if (this.peek() !== ")") {
+          this.error("缺少 )");
+        }
+        this.position++;
+        return new GroupExpression(expression, index);
+      }
+      case "[":
+        return this.parseClass();
+      case ".":
+        return new DotExpression();
+      case "\\":
+        return this.parseEscape();
+      default:
+        return new CharacterExpression(char);
+    }
   }
 
-  advance(): void {
+  private parseClass(): CharacterClassExpression {
+    const negated = this.peek() === "^";
+    if (negated) {
+      this.position++;
+    }
+    const ranges: CharacterRange[] = [];
+    while (this.peek() !== "]") {
+      if (this.position >= this.pattern.length) {
+        this.error("字符类缺少 ]");
+      }
+      const from = this.parseClassAtom();
+      if (
+        this.peek() === "-" &&
+        this.peek(1) !== "]" &&
+        this.peek(1) !== undefined
+      ) {
+        this.position++;
+        const to = this.parseClassAtom();
+        // 一端是 \d 之类的字符集时，"-" 按普通字符处理
+        if (typeof from !== "number" || typeof to !== "number") {
+          ranges.push(...toRanges(from), charRange("-"), ...toRanges(to));
+          continue;
+        }
+        if (from > to) {
+          this.error("字符类中的区间顺序颠倒");
+        }
+        ranges.push({ from, to });
+      } else {
+        ranges.push(...toRanges(from));
+      }
+    }
     this.position++;
+    return new CharacterClassExpression(ranges, negated);
   }
 
-  getPosition(): number {
-    return this.position;
+  /**
+   * 字符类中的一项：单个字符返回其码元，\d 之类的字符集返回区间列表
+   */
+  private parseClassAtom(): number | CharacterRange[] {
+    const char = this.pattern[this.position++];
+    if (char !== "\\") {
+      return char.charCodeAt(0);
+    }
+    // 字符类中的 \b 表示退格
+    if (this.peek() === "b") {
+      this.position++;
+      return 8;
+    }
+    const escape = this.parseEscape();
+    if (escape instanceof CharacterExpression) {
+      return escape.getChar().charCodeAt(0);
+    }
+    return (escape as CharacterClassExpression).getRanges();
   }
 
-  setPosition(position: number): void {
-    this.position = position;
+  private parseEscape(): RegexExpression {
+    const char = this.peek();
+    if (char === undefined) {
+      this.error("转义符 \\ 位于模式结尾");
+    }
+    this.position++;
+    switch (char) {
+      case "d":
+      case "D":
+        return new CharacterClassExpression(DIGIT_RANGES, char === "D");
+      case "w":
+      case "W":
+        return new CharacterClassExpression(WORD_RANGES, char === "W");
+      case "s":
+      case "S":
+        return new CharacterClassExpression(SPACE_RANGES, char === "S");
+      case "n":
+        return new CharacterExpression("\n");
+      case "r":
+        return new CharacterExpression("\r");
+      case "t":
+        return new CharacterExpression("\t");
+      case "f":
+        return new CharacterExpression("\f");
+      case "v":
+        return new CharacterExpression("\v");
+      case "0":
+        if (/\d/.test(this.peek() || "")) {
+          this.error("不支持八进制转义");
+        }
+        return new CharacterExpression("\0");
+      case "x":
+      case "u": {
+        const length = char === "x" ? 2 : 4;
+        const hex = this.pattern.slice(this.position, this.position + length);
+        if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+          // 与原生 RegExp 相同：不完整的 \x、\u 表示字母本身
+          return new CharacterExpression(char);
+        }
+        this.position += length;
+        return new CharacterExpression(String.fromCharCode(parseInt(hex, 16)));
+      }
+      default:
+        if (/[1-9]/.test(char)) {
+          this.position--;
+          this.error("不支持反向引用");
+        }
+        return new CharacterExpression(char);
+    }
   }
 
-  isAtEnd(): boolean {
-    return this.position >= this.input.length;
+  private peek(offset: number = 0): string | undefined {
+    return this.pattern[this.position + offset];
   }
 
-  getInput(): string {
-    return this.input;
+  private error(message: string): never {
+    const char = this.pattern[this.position];
+    const display = char === undefined ? "模式结尾" : `"${char}"`;
+    throw new ParseError(message, display, 1, this.position + 1);
   }
 }
 
 /**
- * 正则表达式抽象表达式
+ * 一次匹配的结果：captures[0] 为整个匹配，captures[n] 为第 n 个捕获组，
+ * 未参与匹配的组为 undefined（与原生 RegExp.exec 的结果数组一致）
  */
-abstract class RegexExpression {
-  abstract match(context: RegexContext): boolean;
+interface RegexMatch {
+  index: number;
+  end: number;
+  captures: (string | undefined)[];
 }
 
 /**
- * 字符匹配表达式
+ * 替换内容：字符串中可以使用 $1~$99、$&、$`、$' 和 $$，
+ * 也可以是根据匹配结果生成替换文本的函数
  */
-class CharacterExpression extends RegexExpression {
-  private char: string;
-
-  constructor(char: string) {
-    super();
-    this.char = char;
-  }
+type RegexReplacement = string | ((match: RegexMatch) => string);
 
-  match(context: RegexContext): boolean {
-    if (context.getCurrentChar() === this.char) {
-      context.advance();
-      return true;
-    }
-    return false;
-  }
+/**
+ * Pike VM 的线程：所在的 NFA 状态和各寄存器的值
+ */
+interface NFAThread {
+  state: NFAState;
+  registers: number[];
 }
 
 /**
- * 点号匹配表达式（匹配任意字符）
+ * 惰性构造的 DFA 状态：对应一组（尚未做空转移闭包的）NFA 状态
  */
-class DotExpression extends RegexExpression {
-  match(context: RegexContext): boolean {
-    if (!context.isAtEnd()) {
-      context.advance();
-      return true;
-    }
-    return false;
-  }
+interface DFAState {
+  states: NFAState[];
+  // 键为 断言标志 * 0x10000 + 字符码元
+  transitions: Map<number, DFAState>;
+  // 键为 断言标志，值为在输入结尾处是否接受
+  accepting: Map<number, boolean>;
 }
 
 /**
- * 序列匹配表达式
+ * 自动机引擎：把 RegexExpression 树编译为 Thompson NFA
+ *
+ * - test（整串匹配）在惰性构造的 DFA 上运行，每个字符只查一次转移表，
+ *   DFA 状态只在第一次用到时构造，数量超过上限时清空缓存重新构造；
+ * - exec 用 Pike VM 同时模拟所有 NFA 线程并按优先级记录捕获组，
+ *   结果与回溯引擎一致。
+ *
+ * 两者的耗时都与输入长度成线性关系，不会出现回溯引擎的指数爆炸。
  */
-class SequenceExpression extends RegexExpression {
-  private expressions: RegexExpression[];
+class RegexAutomaton {
+  private static readonly MAX_DFA_STATES = 4096;
 
-  constructor(expressions: RegexExpression[]) {
-    super();
-    this.expressions = expressions;
-  }
+  private start: NFAState;
+  private groupCount: number;
+  private slotCount: number;
+  private dfaStates: Map<string, DFAState> = new Map();
+  private initial: DFAState;
 
-  match(context: RegexContext): boolean {
-    const startPosition = context.getPosition();
+  constructor(expression: RegexExpression, groupCount: number) {
+    const builder = new NFABuilder(groupCount);
+    const match = builder.state("match");
+    const end = builder.state("save", match, { slot: 1 });
+    this.start = builder.state("save", expression.toNFA(builder, end), {
+      slot: 0,
+    });
+    this.groupCount = groupCount;
+    this.slotCount = builder.getSlotCount();
+    this.initial = this.intern([this.start]);
+  }
 
-    for (const expr of this.expressions) {
-      if (!expr.match(context)) {
-        context.setPosition(startPosition);
+  /**
+   * 判断整个 input 是否匹配
+   */
+  test(input: string): boolean {
+    let state = this.initial;
+    for (let position = 0; position < input.length; position++) {
+      if (state.states.length === 0) {
         return false;
       }
+      const flags = this.flagsAt(input, position);
+      const key = flags * 0x10000 + input.charCodeAt(position);
+      let next = state.transitions.get(key);
+      if (!next) {
+        next = this.step(
+          state,
+          anchorContextAt(input, position),
+          input.charCodeAt(position)
+        );
+        state.transitions.set(key, next);
+      }
+      state = next;
     }
 
-    return true;
+    const flags = this.flagsAt(input, input.length);
+    let accepting = state.accepting.get(flags);
+    if (accepting === undefined) {
+      accepting = this.closure(
+        state.states,
+        anchorContextAt(input, input.length)
+      ).some((nfaState) => nfaState.kind === "match");
+      state.accepting.set(flags, accepting);
+    }
+    return accepting;
   }
-}
 
-/**
- * 选择匹配表达式（或）
- */
-class AlternationExpression extends RegexExpression {
-  private left: RegexExpression;
-  private right: RegexExpression;
+  /**
+   * 从 start 开始查找最左边的匹配（优先级与回溯引擎相同）
+   */
+  exec(input: string, start: number = 0): RegexMatch | null {
+    let threads: NFAThread[] = [];
+    let visited = new Set<string>();
+    let matched: number[] | null = null;
 
-  constructor(left: RegexExpression, right: RegexExpression) {
-    super();
-    this.left = left;
-    this.right = right;
+    for (let position = start; position <= input.length; position++) {
+      if (!matched) {
+        // 新的起点优先级最低
+        const registers = new Array(this.slotCount).fill(-1);
+        this.addThread(
+          threads,
+          visited,
+          this.start,
+          registers,
+          input,
+          position
+        );
+      }
+      if (threads.length === 0 && matched) {
+        break;
+      }
+
+      const next: NFAThread[] = [];
+      const nextVisited = new Set<string>();
+      const code = position < input.length ? input.charCodeAt(position) : -1;
+      for (const thread of threads) {
+        if (thread.state.kind === "match") {
+          // 优先级更低的线程全部放弃
+          matched = thread.registers;
+          break;
+        }
+        if (code >= 0 && thread.state.test!(code)) {
+          this.addThread(
+            next,
+            nextVisited,
+            thread.state.out!,
+            thread.registers,
+            input,
+            position + 1
+          );
+        }
+      }
+      threads = next;
+      visited = nextVisited;
+    }
+
+    if (!matched) {
+      return null;
+    }
+    const registers = matched;
+    const captures: (string | undefined)[] = [];
+    for (let group = 0; group <= this.groupCount; group++) {
+      const [from, to] = [registers[2 * group], registers[2 * group + 1]];
+      captures.push(from >= 0 && to >= 0 ? input.slice(from, to) : undefined);
+    }
+    return { index: registers[0], end: registers[1], captures };
   }
 
-  match(context: RegexContext): boolean {
-    const startPosition = context.getPosition();
+  /**
+   * 按优先级（深度优先、out 先于 alt）沿空转移加入线程。
+   * 同一位置上，状态和“本位置开始的重复迭代”都相同的路径只保留优先级
+   * 最高的一条：两者相同时后续的 progress 检查结果也相同。
+   */
+  private addThread(
+    threads: NFAThread[],
+    visited: Set<string>,
+    state: NFAState,
+    registers: number[],
+    input: string,
+    position: number
+  ): void {
+    const stack: { state: NFAState; registers: number[]; marks: number[] }[] = [
+      { state, registers, marks: [] },
+    ];
+    while (stack.length > 0) {
+      const { state, registers, marks } = stack.pop()!;
+      const key = marks.length > 0 ? `${state.id}:${marks}` : `${state.id}`;
+      if (visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+      const follow = (out: NFAState, copy = registers, marked = marks) =>
+        stack.push({ state: out, registers: copy, marks: marked });
+      switch (state.kind) {
+        case "consume":
+        case "match":
+          threads.push({ state, registers });
+          break;
+        case "split":
+          follow(state.alt!);
+          follow(state.out!);
+          break;
+        case "assert":
+          if (testAnchor(state.anchor!, anchorContextAt(input, position))) {
+            follow(state.out!);
+          }
+          break;
+        case "save": {
+          const copy = [...registers];
+          copy[state.slot!] = position;
+          follow(state.out!, copy);
+          break;
+        }
+        case "mark": {
+          const copy = [...registers];
+          copy[state.slot!] = position;
+          follow(state.out!, copy, [...marks, state.slot!]);
+          break;
+        }
+        case "reset": {
+          const copy = [...registers];
+          state.groups!.forEach((group) => {
+            copy[2 * group] = -1;
+            copy[2 * group + 1] = -1;
+          });
+          follow(state.out!, copy);
+          break;
+        }
+        case "progress":
+          if (registers[state.slot!] !== position) {
+            follow(state.out!);
+          }
+          break;
+      }
+    }
+  }
 
-    if (this.left.match(context)) {
-      return true;
+  private flagsAt(input: string, position: number): number {
+    return (
+      (position === 0 ? 1 : 0) |
+      (isWordChar(input, position - 1) ? 2 : 0) |
+      (isWordChar(input, position) ? 4 : 0)
+    );
+  }
+
+  /**
+   * 在断言上下文中求空转移闭包，捕获相关的状态都视为空转移
+   */
+  private closure(states: NFAState[], context: AnchorContext): NFAState[] {
+    const result: NFAState[] = [];
+    const visited = new Set<number>();
+    const stack = [...states].reverse();
+    while (stack.length > 0) {
+      const state = stack.pop()!;
+      if (visited.has(state.id)) {
+        continue;
+      }
+      visited.add(state.id);
+      switch (state.kind) {
+        case "consume":
+        case "match":
+          result.push(state);
+          break;
+        case "split":
+          stack.push(state.alt!, state.out!);
+          break;
+        case "assert":
+          if (testAnchor(state.anchor!, context)) {
+            stack.push(state.out!);
+          }
+          break;
+        default:
+          stack.push(state.out!);
+      }
+    }
+    return result;
+  }
+
+  private step(
+    state: DFAState,
+    context: AnchorContext,
+    code: number
+  ): DFAState {
+    const next: NFAState[] = [];
+    this.closure(state.states, context).forEach((nfaState) => {
+      if (nfaState.kind === "consume" && nfaState.test!(code)) {
+        next.push(nfaState.out!);
+      }
+    });
+    if (this.dfaStates.size >= RegexAutomaton.MAX_DFA_STATES) {
+      // 缓存已满：丢弃已构造的 DFA，之后按需重新构造
+      this.dfaStates.clear();
+      this.initial = this.intern([this.start]);
     }
+    return this.intern(next);
+  }
 
-    context.setPosition(startPosition);
-    return this.right.match(context);
+  private intern(states: NFAState[]): DFAState {
+    const unique = Array.from(new Set(states));
+    const key = unique
+      .map((state) => state.id)
+      .sort((a, b) => a - b)
+      .join(",");
+    let state = this.dfaStates.get(key);
+    if (!state) {
+      state = { states: unique, transitions: new Map(), accepting: new Map() };
+      this.dfaStates.set(key, state);
+    }
+    return state;
   }
 }
+/**
+ * 匹配引擎：回溯引擎支持完整的优先级语义，但某些模式会指数级回溯；
+ * 自动机引擎结果相同，耗时与输入长度成线性关系
+ */
+type RegexEngine = "backtracking" | "automaton";
 
 /**
- * 零次或多次匹配表达式（*）
+ * 解析后的正则表达式，可以对不同的输入反复使用
  */
-class ZeroOrMoreExpression extends RegexExpression {
+class CompiledRegex {
+  private source: string;
   private expression: RegexExpression;
+  private groupCount: number;
+  private engine: RegexEngine;
+  private automaton?: RegexAutomaton;
 
-  constructor(expression: RegexExpression) {
-    super();
+  constructor(
+    source: string,
+    expression: RegexExpression,
+    groupCount: number,
+    engine: RegexEngine = "backtracking"
+  ) {
+    this.source = source;
     this.expression = expression;
+    this.groupCount = groupCount;
+    this.engine = engine;
+    if (engine === "automaton") {
+      this.automaton = new RegexAutomaton(expression, groupCount);
+    }
   }
 
-  match(context: RegexContext): boolean {
-    while (this.expression.match(context)) {
-      // 继续匹配
+  getSource(): string {
+    return this.source;
+  }
+
+  getEngine(): RegexEngine {
+    return this.engine;
+  }
+
+  getGroupCount(): number {
+    return this.groupCount;
+  }
+
+  /**
+   * 判断整个 input 是否匹配
+   */
+  test(input: string): boolean {
+    if (this.automaton) {
+      return this.automaton.test(input);
+    }
+    const context = new RegexContext(input);
+    return this.expression.matchFrom(context, 0, (end) => end === input.length);
+  }
+
+  /**
+   * 从 start 开始查找最左边的匹配
+   */
+  exec(input: string, start: number = 0): RegexMatch | null {
+    if (this.automaton) {
+      return this.automaton.exec(input, start);
+    }
+    const context = new RegexContext(input);
+    for (let index = start; index <= input.length; index++) {
+      context.clearCaptures();
+      let end = -1;
+      if (
+        this.expression.matchFrom(context, index, (position) => {
+          end = position;
+          return true;
+        })
+      ) {
+        const captures: (string | undefined)[] = [input.slice(index, end)];
+        for (let group = 1; group <= this.groupCount; group++) {
+          const span = context.getCapture(group);
+          captures.push(span ? input.slice(span[0], span[1]) : undefined);
+        }
+        return { index, end, captures };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 所有互不重叠的匹配；空匹配之后从下一个字符继续查找
+   */
+  matchAll(input: string): RegexMatch[] {
+    const matches: RegexMatch[] = [];
+    let start = 0;
+    while (start <= input.length) {
+      const match = this.exec(input, start);
+      if (!match) {
+        break;
+      }
+      matches.push(match);
+      start = match.end > match.index ? match.end : match.end + 1;
     }
-    return true; // 零次或多次总是成功
+    return matches;
+  }
+
+  /**
+   * 替换第一个匹配
+   */
+  replace(input: string, replacement: RegexReplacement): string {
+    const match = this.exec(input);
+    return match ? this.substitute(input, [match], replacement) : input;
+  }
+
+  /**
+   * 替换所有匹配
+   */
+  replaceAll(input: string, replacement: RegexReplacement): string {
+    return this.substitute(input, this.matchAll(input), replacement);
+  }
+
+  private substitute(
+    input: string,
+    matches: RegexMatch[],
+    replacement: RegexReplacement
+  ): string {
+    let result = "";
+    let last = 0;
+    matches.forEach((match) => {
+      result += input.slice(last, match.index);
+      result +=
+        typeof replacement === "function"
+          ? replacement(match)
+          : this.expand(input, match, replacement);
+      last = match.end;
+    });
+    return result + input.slice(last);
+  }
+
+  /**
+   * 展开替换模板。$nn 在组号有效时优先按两位解释，否则按一位解释，
+   * 都无效时原样保留
+   */
+  private expand(input: string, match: RegexMatch, template: string): string {
+    return template.replace(/\$(\$|&|`|'|\d{1,2})/g, (text, key: string) => {
+      switch (key) {
+        case "$":
+          return "$";
+        case "&":
+          return match.captures[0]!;
+        case "`":
+          return input.slice(0, match.index);
+        case "'":
+          return input.slice(match.end);
+      }
+      const group = (index: number) =>
+        index >= 1 && index <= this.groupCount
+          ? match.captures[index] ?? ""
+          : undefined;
+      const two = group(parseInt(key, 10));
+      if (two !== undefined) {
+        return two;
+      }
+      const one = key.length === 2 ? group(parseInt(key[0], 10)) : undefined;
+      return one !== undefined ? one + key[1] : text;
+    });
   }
 }
 
 /**
- * 简单正则表达式解释器
+ * 简单正则表达式解释器，engine 为 compile 默认使用的匹配引擎
  */
 class SimpleRegexInterpreter {
+  private engine: RegexEngine;
+
+  constructor(engine: RegexEngine = "backtracking") {
+    this.engine = engine;
+  }
+
+  /**
+   * 判断整个 input 是否与 pattern 匹配
+   */
   test(pattern: string, input: string): boolean {
-    const expression = this.parsePattern(pattern);
-    const context = new RegexContext(input);
-    return expression.match(context) && context.isAtEnd();
+    return this.compile(pattern).test(input);
   }
 
-  private parsePattern(pattern: string): RegexExpression {
-    // 简化的正则表达式解析
-    const expressions: RegexExpression[] = [];
+  exec(pattern: string, input: string, start: number = 0): RegexMatch | null {
+    return this.compile(pattern).exec(input, start);
+  }
 
-    for (let i = 0; i < pattern.length; i++) {
-      const char = pattern[i];
-
-      if (char === ".") {
-        expressions.push(new DotExpression());
-      } else if (char === "*" && expressions.length > 0) {
-        const lastExpr = expressions.pop()!;
-        expressions.push(new ZeroOrMoreExpression(lastExpr));
-      } else if (char === "|") {
-        const left = new SequenceExpression(expressions);
-        const right = this.parsePattern(pattern.slice(i + 1));
-        return new AlternationExpression(left, right);
-      } else {
-        expressions.push(new CharacterExpression(char));
-      }
-    }
+  matchAll(pattern: string, input: string): RegexMatch[] {
+    return this.compile(pattern).matchAll(input);
+  }
+
+  replace(
+    pattern: string,
+    input: string,
+    replacement: RegexReplacement
+  ): string {
+    return this.compile(pattern).replace(input, replacement);
+  }
+
+  replaceAll(
+    pattern: string,
+    input: string,
+    replacement: RegexReplacement
+  ): string {
+    return this.compile(pattern).replaceAll(input, replacement);
+  }
+
+  compile(pattern: string, engine: RegexEngine = this.engine): CompiledRegex {
+    const parser = new RegexParser(pattern);
+    const expression = parser.parse();
+    return new CompiledRegex(
+      pattern,
+      expression,
+      parser.getGroupCount(),
+      engine
+    );
+  }
 
-    return new SequenceExpression(expressions);
+  parsePattern(pattern: string): RegexExpression {
+    return new RegexParser(pattern).parse();
   }
 }
 
@@ -668,6 +8973,83 @@ export function demonstrateInterpreterPattern(): void {
   console.log("计算 x + y：", calculator.evaluate("x + y"));
   console.log("计算 x * y - 2：", calculator.evaluate("x * y - 2"));
   console.log("计算 (x + y) * 2：", calculator.evaluate("(x + y) * 2"));
+  console.log("计算 -x + 3.14：", calculator.evaluate("-x + 3.14"));
+  console.log("计算 2 ^ 3 ^ 2：", calculator.evaluate("2 ^ 3 ^ 2"));
+  console.log("计算 1.5e3 % 7：", calculator.evaluate("1.5e3 % 7"));
+  console.log(
+    "计算 max(x, y, 7) + sqrt(16)：",
+    calculator.evaluate("max(x, y, 7) + sqrt(16)")
+  );
+  calculator.registerFunction("clamp", (v, lo, hi) =>
+    Math.min(Math.max(v, lo), hi)
+  );
+  console.log("计算 clamp(x, 0, 8)：", calculator.evaluate("clamp(x, 0, 8)"));
+  calculator.evaluate("double(n) = n * 2");
+  console.log(
+    "定义 double(n) = n * 2 后计算 double(x) + 1：",
+    calculator.evaluate("double(x) + 1")
+  );
+  const script = calculator.evaluateScript(
+    "let rate = 0.1; fee = x * rate\nfee + 1"
+  );
+  console.log(
+    "执行脚本 let rate = 0.1; fee = x * rate; fee + 1：",
+    script.statements.map((result) => result.value)
+  );
+  console.log(
+    "自由变量 price * qty + x：",
+    collectVariables(calculator.parse("price * qty + x"))
+  );
+  calculator.setStrict(true);
+  try {
+    calculator.evaluate("price * qty + x");
+  } catch (error) {
+    console.log("严格模式计算 price * qty + x：", (error as Error).message);
+  }
+  calculator.setStrict(false);
+  calculator.setVariable("age", 20);
+  calculator.setVariable("country", 1);
+  console.log(
+    "计算 age >= 18 && country == 1 ? 10 : 0：",
+    calculator.evaluate("age >= 18 && country == 1 ? 10 : 0")
+  );
+  calculator.evaluate("fact(n) = n <= 1 ? 1 : n * fact(n - 1)");
+  console.log("递归函数 fact(5)：", calculator.evaluate("fact(5)"));
+  const exact = new Calculator();
+  console.log("浮点模式 0.1 + 0.2：", exact.evaluate("0.1 + 0.2"));
+  exact.setNumericMode("rational");
+  console.log(
+    "有理数模式 0.1 + 0.2、1/3 + 1/6：",
+    exact.evaluateExact("0.1 + 0.2").toString(),
+    exact.evaluateExact("1/3 + 1/6").toString()
+  );
+  exact.setNumericMode("decimal", 2);
+  console.log(
+    "定点小数模式（2位）10 / 3 * 3：",
+    exact.evaluateExact("10 / 3 * 3").toString()
+  );
+  const pricing = calculator.parse("price ^ 2 * qty + 3 * price + sin(price)");
+  console.log(
+    `对 ${pricing} 关于 price 求导：`,
+    simplify(derive(pricing, "price")).toString()
+  );
+  const formula = calculator.compile("price * qty + x");
+  console.log(
+    "编译 price * qty + x 后分别代入两组绑定：",
+    formula.evaluate({ price: 2, qty: 3 }),
+    formula.evaluate({ price: 5, qty: 4 })
+  );
+  const timing = benchmarkCompiledExpression(undefined, 10000);
+  console.log(
+    `基准测试（10000次）：重新解析 ${timing.reparseMs.toFixed(1)}ms，` +
+      `解释执行 ${timing.interpretMs.toFixed(1)}ms，` +
+      `编译执行 ${timing.compiledMs.toFixed(1)}ms`
+  );
+  try {
+    calculator.evaluate("(1 +");
+  } catch (error) {
+    console.log("计算 (1 +：", (error as Error).message);
+  }
 
   // 2. SQL查询解释器演示
   console.log("\n2. SQL查询解释器：");
@@ -692,6 +9074,151 @@ export function demonstrateInterpreterPattern(): void {
   console.log("\n执行 SELECT * FROM users WHERE age > 28：");
   console.log(sqlInterpreter.execute("SELECT * FROM users WHERE age > 28"));
 
+  console.log(
+    "\n执行 SELECT name FROM users WHERE age > 25 AND (city = '北京' OR name LIKE '赵%')："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT name FROM users WHERE age > 25 AND (city = '北京' OR name LIKE '赵%')"
+    )
+  );
+
+  console.log(
+    "\n执行 SELECT name FROM users WHERE city IN ('上海', '广州') AND age BETWEEN 30 AND 40："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT name FROM users WHERE city IN ('上海', '广州') AND age BETWEEN 30 AND 40"
+    )
+  );
+
+  console.log(
+    "\n执行 SELECT name, age FROM users ORDER BY city DESC, age LIMIT 2 OFFSET 1："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT name, age FROM users ORDER BY city DESC, age LIMIT 2 OFFSET 1"
+    )
+  );
+
+  console.log(
+    "\n执行 SELECT city, COUNT(*) AS total, AVG(age) FROM users GROUP BY city HAVING COUNT(*) > 1："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT city, COUNT(*) AS total, AVG(age) FROM users GROUP BY city HAVING COUNT(*) > 1"
+    )
+  );
+
+  sqlInterpreter.addTable("orders", [
+    { id: 101, user_id: 1, amount: 120 },
+    { id: 102, user_id: 3, amount: 80 },
+    { id: 103, user_id: 1, amount: 45 },
+  ]);
+  console.log(
+    "\n执行 SELECT u.name, COUNT(o.id) AS orders FROM users u LEFT JOIN orders o ON u.id = o.user_id GROUP BY u.name："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT u.name, COUNT(o.id) AS orders FROM users u LEFT JOIN orders o ON u.id = o.user_id GROUP BY u.name"
+    )
+  );
+
+  console.log("\n执行 UPDATE users SET city = '深圳' WHERE age >= 30：");
+  console.log(
+    sqlInterpreter.executeUpdate(
+      "UPDATE users SET city = '深圳' WHERE age >= 30"
+    )
+  );
+
+  try {
+    sqlInterpreter.transaction((sql) => {
+      sql.execute("DELETE FROM orders");
+      sql.execute("INSERT INTO missing (id) VALUES (1)");
+    });
+  } catch (error) {
+    console.log(
+      `事务失败已回滚（${(error as Error).message}），orders 仍有 ${
+        sqlInterpreter.execute("SELECT * FROM orders").length
+      } 行`
+    );
+  }
+
+  sqlInterpreter.execute(
+    "CREATE TABLE products (id INT PRIMARY KEY, name TEXT NOT NULL, price REAL)"
+  );
+  sqlInterpreter.execute(
+    "INSERT INTO products VALUES ('1', '钢笔', '12.5'), (2, '笔记本', 8)"
+  );
+  console.log("\n带表结构的表 products（字符串已转换为数值）：");
+  console.log(sqlInterpreter.execute("SELECT * FROM products"));
+  try {
+    sqlInterpreter.execute("SELECT nmae FROM products");
+  } catch (error) {
+    console.log((error as Error).message);
+  }
+
+  const findByCity = sqlInterpreter.prepare(
+    "SELECT name FROM users WHERE city = :city AND age >= :minAge"
+  );
+  console.log(
+    "\n预编译语句 SELECT name FROM users WHERE city = :city AND age >= :minAge："
+  );
+  console.log(findByCity.execute({ city: "北京", minAge: 20 }));
+  console.log(findByCity.execute({ city: "O'Brien' OR 1=1 --", minAge: 0 }));
+
+  sqlInterpreter.execute("CREATE INDEX idx_users_age ON users (age)");
+  sqlInterpreter.execute(
+    "CREATE INDEX idx_users_city ON users (city) USING HASH"
+  );
+  console.log(
+    "\n执行 EXPLAIN SELECT name FROM users WHERE city = '北京' AND age > 26："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "EXPLAIN SELECT name FROM users WHERE city = '北京' AND age > 26"
+    )
+  );
+
+  sqlInterpreter.addTable("sales", [
+    { item: "钢笔", price: 2.5, qty: 4, address: { city: "北京" } },
+    { item: "书包", price: 30, qty: 2, address: { city: "上海" } },
+    { item: "台灯", price: 45, qty: 1, address: { city: "北京" } },
+  ]);
+  console.log(
+    "\n执行 SELECT item, price * qty AS total, UPPER(address.city) FROM sales WHERE price * qty > 20 ORDER BY total DESC："
+  );
+  console.log(
+    sqlInterpreter.execute(
+      "SELECT item, price * qty AS total, UPPER(address.city) FROM sales WHERE price * qty > 20 ORDER BY total DESC"
+    )
+  );
+  console.log("\n执行 SELECT DISTINCT address.city AS city FROM sales：");
+  console.log(
+    sqlInterpreter.execute("SELECT DISTINCT address.city AS city FROM sales")
+  );
+
+  console.log("\n带引号的标识符、转义字符串和注释：");
+  console.log(
+    sqlInterpreter.execute(
+      `SELECT "item" AS "商品 名称", E'单价\\t' || price AS label -- 行注释
+       FROM sales /* 块注释 */ WHERE qty >= 2`
+    )
+  );
+  try {
+    sqlInterpreter.execute("SELECT item\nFROM sales\nWHERE price >");
+  } catch (error) {
+    console.log((error as Error).message);
+  }
+
+  const csv = formatCSV([
+    { id: 1, note: '含逗号, "引号"\n和换行', code: "007" },
+    { id: 2, note: null, code: "42" },
+  ]);
+  console.log("\nCSV 往返（引号、逗号、换行、看起来像数字的字符串）：");
+  console.log(csv);
+  console.log(parseCSV(csv));
+
   // 3. 正则表达式解释器演示
   console.log("\n3. 正则表达式解释器：");
   const regexInterpreter = new SimpleRegexInterpreter();
@@ -702,13 +9229,50 @@ export function demonstrateInterpreterPattern(): void {
   console.log('测试 "a.c" 匹配 "abc"：', regexInterpreter.test("a.c", "abc"));
   console.log('测试 "a|b" 匹配 "a"：', regexInterpreter.test("a|b", "a"));
   console.log('测试 "a|b" 匹配 "b"：', regexInterpreter.test("a|b", "b"));
+  console.log('测试 "a*a" 匹配 "aaa"：', regexInterpreter.test("a*a", "aaa"));
+  console.log(
+    '测试 "[a-z]+@\\w+\\.(com|org)" 匹配 "test@example.org"：',
+    regexInterpreter.test("[a-z]+@\\w+\\.(com|org)", "test@example.org")
+  );
+  const logLine = "user=alice ip=10.0.0.1 token=abc123";
+  console.log(
+    `脱敏 "${logLine}"：`,
+    regexInterpreter.replaceAll("(token|ip)=([\\w.]+)", logLine, "$1=***")
+  );
+  console.log(
+    'exec "(\\d+)-(\\d+)" 于 "tel: 010-1234"：',
+    regexInterpreter.exec("(\\d+)-(\\d+)", "tel: 010-1234")
+  );
+
+  // 自动机引擎：线性时间匹配，不受灾难性回溯影响
+  const automatonInterpreter = new SimpleRegexInterpreter("automaton");
+  const pathological = "x".repeat(30);
+  const startTime = Date.now();
+  console.log(
+    `自动机引擎测试 "(x+x+)+y" 匹配 30 个 x：`,
+    automatonInterpreter.test("(x+x+)+y", pathological),
+    `（${Date.now() - startTime} ms，回溯引擎需要约 2^30 步）`
+  );
+  console.log(
+    '自动机引擎 exec "(\\d+)-(\\d+)" 于 "tel: 010-1234"：',
+    automatonInterpreter.exec("(\\d+)-(\\d+)", "tel: 010-1234")
+  );
 
   console.log("\n=== 解释器模式演示完成 ===");
 }
 
 // 导出所有类和接口
 export {
+  NumericMode,
+  Numeric,
+  Rational,
+  FixedDecimal,
+  Arithmetic,
+  FloatArithmetic,
+  RationalArithmetic,
+  DecimalArithmetic,
   Context,
+  UndefinedVariableError,
   AbstractExpression,
   NumberExpression,
   VariableExpression,
@@ -716,18 +9280,139 @@ export {
   SubtractExpression,
   MultiplyExpression,
   DivideExpression,
+  ModuloExpression,
+  PowerExpression,
+  NegateExpression,
+  ComparisonOperator,
+  ComparisonExpression,
+  AndExpression,
+  OrExpression,
+  NotExpression,
+  ConditionalExpression,
+  FunctionCallExpression,
+  FunctionDefinitionExpression,
+  AssignmentExpression,
+  collectVariables,
+  derive,
+  simplify,
+  CalculatorFunction,
+  NativeFunction,
+  ArithmeticFunction,
+  UserDefinedFunction,
+  Token,
+  TokenType,
+  ParseError,
+  ScriptResult,
+  Bindings,
+  CompiledNode,
+  CompiledExpression,
+  benchmarkCompiledExpression,
+  ExpressionTokenizer,
+  ExpressionParser,
   Calculator,
+  SQLColumnType,
+  ColumnDefinition,
+  TableSchema,
+  IndexKind,
+  SQLIndex,
+  HashIndex,
+  IndexRange,
+  SortedIndex,
+  SQLUndoEntry,
   SQLContext,
+  SQLResult,
   SQLExpression,
+  OrderByItem,
+  AggregateExpression,
+  CountAggregate,
+  SumAggregate,
+  AvgAggregate,
+  MinAggregate,
+  MaxAggregate,
+  SelectItem,
+  PlanStep,
+  AccessPath,
+  TableReference,
+  JoinType,
+  JoinClause,
+  SelectOptions,
+  compareSQLValues,
   SelectExpression,
+  CreateTableExpression,
+  CreateIndexExpression,
+  ExplainExpression,
+  InsertExpression,
+  CopyDirection,
+  CopyExpression,
+  Assignment,
+  UpdateExpression,
+  DeleteExpression,
+  TransactionAction,
+  TransactionExpression,
+  ConditionExpression,
   WhereExpression,
+  ColumnComparisonCondition,
+  AndCondition,
+  OrCondition,
+  NotCondition,
+  InCondition,
+  BetweenCondition,
+  IsNullCondition,
+  ScalarComparisonCondition,
+  matchLike,
+  SQLOperand,
+  lookupSQLColumn,
+  SQLFunction,
+  NativeSQLFunction,
+  CalculatorSQLFunction,
+  SQL_FUNCTIONS,
+  ScalarExpression,
+  ColumnReferenceExpression,
+  AggregateReferenceExpression,
+  LiteralValueExpression,
+  ScalarOperator,
+  BinaryScalarExpression,
+  UnaryMinusExpression,
+  ScalarFunctionExpression,
+  TableFileFormat,
+  parseCSV,
+  formatCSV,
+  parseJSONTable,
+  formatJSONTable,
+  parseNDJSON,
+  formatNDJSON,
+  readTableFile,
+  writeTableFile,
+  SQLParameter,
+  SQLParams,
+  PreparedStatement,
+  SQLToken,
+  SQLTokenType,
+  SQLTokenizer,
+  SQLParser,
   SQLInterpreter,
   RegexContext,
+  RegexContinuation,
   RegexExpression,
+  CharacterRange,
   CharacterExpression,
   DotExpression,
+  CharacterClassExpression,
+  AnchorKind,
+  AnchorExpression,
   SequenceExpression,
   AlternationExpression,
+  RepeatExpression,
   ZeroOrMoreExpression,
+  GroupExpression,
+  RegexParser,
+  RegexMatch,
+  RegexReplacement,
+  NFAStateKind,
+  NFAState,
+  NFABuilder,
+  RegexAutomaton,
+  RegexEngine,
+  CompiledRegex,
   SimpleRegexInterpreter,
 };
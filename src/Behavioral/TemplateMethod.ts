@@ -388,16 +388,1129 @@ class ElvesAI extends GameAI {
 // 示例4：文档生成器
 // =============================================================================
 
+/**
+ * 模板数据：变量名到值的映射，值可以是嵌套的对象和数组
+ */
+type TemplateContext = Record<string, any>;
+
+/**
+ * 过滤器：{{ value | name(arg1, arg2) }} 调用 filter(value, arg1, arg2)
+ */
+type TemplateFilter = (value: any, ...args: any[]) => any;
+
+/**
+ * 模板语法错误：记录出错位置的行列号
+ */
+class TemplateSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message}（第${line}行第${column}列）`);
+    this.name = "TemplateSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * 不需要转义的文本，由 safe 过滤器产生
+ */
+class SafeString {
+  private value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * 按 UTC 格式化日期，支持 YYYY、MM、DD、HH、mm、ss
+ */
+function formatTemplateDate(value: any, format: string = "YYYY-MM-DD"): string {
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`date 过滤器无法识别的日期: ${value}`);
+  }
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, "0");
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+/**
+ * length 过滤器：字符串和数组取长度，Map、Set 取元素个数，其他对象取自身
+ * 属性个数，数字等其他值取字符串形式的长度
+ */
+function templateLength(value: any): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (typeof value === "string" || Array.isArray(value)) {
+    return value.length;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return value.size;
+  }
+  return typeof value === "object"
+    ? Object.keys(value).length
+    : String(value).length;
+}
+
+/**
+ * 内置过滤器
+ */
+const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: (value) => String(value ?? "").toUpperCase(),
+  lower: (value) => String(value ?? "").toLowerCase(),
+  date: formatTemplateDate,
+  default: (value, fallback = "") =>
+    value === null || value === undefined || value === "" ? fallback : value,
+  length: templateLength,
+  join: (value, separator = ", ") =>
+    Array.isArray(value) ? value.join(separator) : value,
+  safe: (value) => new SafeString(String(value ?? "")),
+};
+
+/**
+ * 渲染时的变量作用域：for 循环在外层作用域之上建立新的一层，
+ * 查找变量时由内向外逐层查找
+ */
+class TemplateScope {
+  private variables: TemplateContext;
+  private engine: TemplateEngine;
+  private parent?: TemplateScope;
+  // 局部模板的嵌套层数
+  private depth: number;
+
+  constructor(
+    variables: TemplateContext,
+    engine: TemplateEngine,
+    parent?: TemplateScope,
+    depth: number = parent ? parent.depth : 0
+  ) {
+    this.variables = variables;
+    this.engine = engine;
+    this.parent = parent;
+    this.depth = depth;
+  }
+
+  /**
+   * 按 a.b.c 形式的路径查找变量，不存在时返回 undefined。每一段都只查找
+   * 自身属性，模板访问不到原型链上的 constructor、__proto__ 等
+   */
+  lookup(path: string[]): any {
+    const [name, ...rest] = path;
+    let scope: TemplateScope | undefined = this;
+    while (
+      scope &&
+      !Object.prototype.hasOwnProperty.call(scope.variables, name)
+    ) {
+      scope = scope.parent;
+    }
+    let value = scope ? scope.variables[name] : undefined;
+    for (const key of rest) {
+      if (
+        value === null ||
+        value === undefined ||
+        !Object.prototype.hasOwnProperty.call(value, key)
+      ) {
+        return undefined;
+      }
+      value = value[key];
+    }
+    return value;
+  }
+
+  child(variables: TemplateContext): TemplateScope {
+    return new TemplateScope(variables, this.engine, this);
+  }
+
+  nested(): TemplateScope {
+    return new TemplateScope({}, this.engine, this, this.depth + 1);
+  }
+
+  getEngine(): TemplateEngine {
+    return this.engine;
+  }
+
+  getDepth(): number {
+    return this.depth;
+  }
+}
+
+/**
+ * 模板表达式：变量、常量、过滤器调用以及条件中的比较和逻辑运算
+ */
+abstract class TemplateExpression {
+  abstract evaluate(scope: TemplateScope): any;
+}
+
+class TemplateLiteral extends TemplateExpression {
+  private value: any;
+
+  constructor(value: any) {
+    super();
+    this.value = value;
+  }
+
+  evaluate(scope: TemplateScope): any {
+    return this.value;
+  }
+}
+
+class TemplateVariable extends TemplateExpression {
+  private path: string[];
+
+  constructor(path: string[]) {
+    super();
+    this.path = path;
+  }
+
+  evaluate(scope: TemplateScope): any {
+    return scope.lookup(this.path);
+  }
+}
+
+class TemplateFilterCall extends TemplateExpression {
+  private input: TemplateExpression;
+  private filter: TemplateFilter;
+  private args: TemplateExpression[];
+
+  constructor(
+    input: TemplateExpression,
+    filter: TemplateFilter,
+    args: TemplateExpression[]
+  ) {
+    super();
+    this.input = input;
+    this.filter = filter;
+    this.args = args;
+  }
+
+  evaluate(scope: TemplateScope): any {
+    return this.filter(
+      this.input.evaluate(scope),
+      ...this.args.map((arg) => arg.evaluate(scope))
+    );
+  }
+}
+
+class TemplateNot extends TemplateExpression {
+  private operand: TemplateExpression;
+
+  constructor(operand: TemplateExpression) {
+    super();
+    this.operand = operand;
+  }
+
+  evaluate(scope: TemplateScope): boolean {
+    return !isTemplateTruthy(this.operand.evaluate(scope));
+  }
+}
+
+class TemplateLogical extends TemplateExpression {
+  private operator: "and" | "or";
+  private left: TemplateExpression;
+  private right: TemplateExpression;
+
+  constructor(
+    operator: "and" | "or",
+    left: TemplateExpression,
+    right: TemplateExpression
+  ) {
+    super();
+    this.operator = operator;
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(scope: TemplateScope): boolean {
+    const left = isTemplateTruthy(this.left.evaluate(scope));
+    if (this.operator === "and" ? !left : left) {
+      return left;
+    }
+    return isTemplateTruthy(this.right.evaluate(scope));
+  }
+}
+
+class TemplateComparison extends TemplateExpression {
+  private operator: string;
+  private left: TemplateExpression;
+  private right: TemplateExpression;
+
+  constructor(
+    operator: string,
+    left: TemplateExpression,
+    right: TemplateExpression
+  ) {
+    super();
+    this.operator = operator;
+    this.left = left;
+    this.right = right;
+  }
+
+  evaluate(scope: TemplateScope): boolean {
+    const left = this.left.evaluate(scope);
+    const right = this.right.evaluate(scope);
+    switch (this.operator) {
+      case "==":
+        return left === right;
+      case "!=":
+        return left !== right;
+      case "<":
+        return left < right;
+      case "<=":
+        return left <= right;
+      case ">":
+        return left > right;
+      default:
+        return left >= right;
+    }
+  }
+}
+
+/**
+ * 条件的真假：按 JavaScript 的规则判断，另外空数组也为假
+ */
+function isTemplateTruthy(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * 模板语法树节点
+ */
+abstract class TemplateNode {
+  abstract render(scope: TemplateScope): string;
+}
+
+class TemplateText extends TemplateNode {
+  private text: string;
+
+  constructor(text: string) {
+    super();
+    this.text = text;
+  }
+
+  render(scope: TemplateScope): string {
+    return this.text;
+  }
+}
+
+/**
+ * {{ expression }}：输出表达式的值，开启自动转义时转义 HTML 特殊字符
+ */
+class TemplateOutput extends TemplateNode {
+  private expression: TemplateExpression;
+
+  constructor(expression: TemplateExpression) {
+    super();
+    this.expression = expression;
+  }
+
+  render(scope: TemplateScope): string {
+    return scope.getEngine().stringify(this.expression.evaluate(scope));
+  }
+}
+
+class TemplateSequence extends TemplateNode {
+  private children: TemplateNode[];
+
+  constructor(children: TemplateNode[]) {
+    super();
+    this.children = children;
+  }
+
+  render(scope: TemplateScope): string {
+    return this.children.map((child) => child.render(scope)).join("");
+  }
+}
+
+/**
+ * {% if %} ... {% elif %} ... {% else %} ... {% endif %}
+ */
+class TemplateIf extends TemplateNode {
+  private branches: { condition: TemplateExpression; body: TemplateNode }[];
+  private otherwise?: TemplateNode;
+
+  constructor(
+    branches: { condition: TemplateExpression; body: TemplateNode }[],
+    otherwise?: TemplateNode
+  ) {
+    super();
+    this.branches = branches;
+    this.otherwise = otherwise;
+  }
+
+  render(scope: TemplateScope): string {
+    const branch = this.branches.find(({ condition }) =>
+      isTemplateTruthy(condition.evaluate(scope))
+    );
+    if (branch) {
+      return branch.body.render(scope);
+    }
+    return this.otherwise ? this.otherwise.render(scope) : "";
+  }
+}
+
+/**
+ * {% for item in list %} ... {% else %} ... {% endfor %}
+ *
+ * 循环体中可以使用 loop.index（从 1 开始）、loop.index0、loop.first、
+ * loop.last 和 loop.length；列表为空时渲染 else 部分。
+ */
+class TemplateFor extends TemplateNode {
+  private variable: string;
+  private iterable: TemplateExpression;
+  private body: TemplateNode;
+  private otherwise?: TemplateNode;
+
+  constructor(
+    variable: string,
+    iterable: TemplateExpression,
+    body: TemplateNode,
+    otherwise?: TemplateNode
+  ) {
+    super();
+    this.variable = variable;
+    this.iterable = iterable;
+    this.body = body;
+    this.otherwise = otherwise;
+  }
+
+  render(scope: TemplateScope): string {
+    const items = this.iterable.evaluate(scope) ?? [];
+    if (!Array.isArray(items)) {
+      throw new Error(`for 循环需要数组，实际为 ${typeof items}`);
+    }
+    if (items.length === 0) {
+      return this.otherwise ? this.otherwise.render(scope) : "";
+    }
+    return items
+      .map((item, index) =>
+        this.body.render(
+          scope.child({
+            [this.variable]: item,
+            loop: {
+              index: index + 1,
+              index0: index,
+              first: index === 0,
+              last: index === items.length - 1,
+              length: items.length,
+            },
+          })
+        )
+      )
+      .join("");
+  }
+}
+
+/**
+ * {% include "name" %}：用当前的变量渲染已注册的局部模板
+ */
+class TemplateInclude extends TemplateNode {
+  private name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  render(scope: TemplateScope): string {
+    return scope.getEngine().renderPartial(this.name, scope);
+  }
+}
+
+/**
+ * 模板词法单元：文本、{{ 输出 }} 或 {% 标签 %}，value 为标记之间的内容
+ */
+interface TemplateToken {
+  type: "text" | "output" | "tag";
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 模板词法分析器
+ *
+ * {# 注释 #} 被丢弃。独占一行的控制标签和注释连同该行的缩进和换行一起去掉，
+ * 这样控制结构不会在输出中留下空行；include 会输出内容，所在行保持不变。
+ */
+class TemplateTokenizer {
+  private static readonly OPEN = /\{\{|\{%|\{#/;
+  private static readonly CLOSE: Record<string, string> = {
+    "{{": "}}",
+    "{%": "%}",
+    "{#": "#}",
+  };
+
+  tokenize(source: string): TemplateToken[] {
+    const tokens: TemplateToken[] = [];
+    const locate = (index: number) => {
+      const before = source.slice(0, index);
+      const lineStart = before.lastIndexOf("\n") + 1;
+      return {
+        line: before.split("\n").length,
+        column: index - lineStart + 1,
+      };
+    };
+    const pushText = (start: number, end: number) => {
+      if (end > start) {
+        tokens.push({
+          type: "text",
+          value: source.slice(start, end),
+          ...locate(start),
+        });
+      }
+    };
+
+    const open = new RegExp(TemplateTokenizer.OPEN.source, "g");
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = open.exec(source))) {
+      const start = match.index;
+      const close = TemplateTokenizer.CLOSE[match[0]];
+      const end = source.indexOf(close, start + 2);
+      if (end < 0) {
+        const { line, column } = locate(start);
+        throw new TemplateSyntaxError(`缺少结束标记 ${close}`, line, column);
+      }
+
+      let textEnd = start;
+      let next = end + 2;
+      const inner = source.slice(start + 2, end);
+      if (
+        match[0] === "{#" ||
+        (match[0] === "{%" && !/^\s*include\b/.test(inner))
+      ) {
+        const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+        const lineEnd = source.indexOf("\n", next);
+        const after = source.slice(next, lineEnd < 0 ? source.length : lineEnd);
+        if (
+          position <= lineStart &&
+          /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+          /^[ \t]*\r?$/.test(after)
+        ) {
+          textEnd = lineStart;
+          next = lineEnd < 0 ? source.length : lineEnd + 1;
+        }
+      }
+
+      pushText(position, textEnd);
+      if (match[0] !== "{#") {
+        tokens.push({
+          type: match[0] === "{{" ? "output" : "tag",
+          value: inner,
+          ...locate(start + 2),
+        });
+      }
+      position = next;
+      open.lastIndex = next;
+    }
+    pushText(position, source.length);
+    return tokens;
+  }
+}
+
+/**
+ * 标签和输出内部的词法单元
+ */
+interface TemplateExpressionToken {
+  type: "name" | "string" | "number" | "operator" | "end";
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 解析一个 {{ }} 或 {% %} 内部的内容
+ *
+ * 文法：
+ *   expression := andExpr ("or" andExpr)*
+ *   andExpr    := notExpr ("and" notExpr)*
+ *   notExpr    := "not" notExpr | comparison
+ *   comparison := filtered (("==" | "!=" | "<" | "<=" | ">" | ">=") filtered)?
+ *   filtered   := primary ("|" NAME ("(" (expression ("," expression)*)? ")")?)*
+ *   primary    := STRING | NUMBER | true | false | null | "(" expression ")"
+ *               | NAME ("." (NAME | NUMBER))*
+ *
+ * 字符串可以用单引号或双引号，支持反斜杠转义。
+ * 过滤器在解析时查找，未知的过滤器直接报错。
+ */
+class TemplateTagReader {
+  private static readonly OPERATORS = [
+    "==",
+    "!=",
+    "<=",
+    ">=",
+    "<",
+    ">",
+    "|",
+    "(",
+    ")",
+    ",",
+    ".",
+  ];
+  private static readonly COMPARISONS = ["==", "!=", "<", "<=", ">", ">="];
+  // 字符串中 \n、\t 之外的反斜杠转义表示字符本身，如 \"、\'、\\
+  private static readonly ESCAPES: Record<string, string> = {
+    n: "\n",
+    t: "\t",
+  };
+
+  private tokens: TemplateExpressionToken[];
+  private current: number = 0;
+  private filters: Map<string, TemplateFilter>;
+
+  constructor(token: TemplateToken, filters: Map<string, TemplateFilter>) {
+    this.tokens = this.tokenize(token);
+    this.filters = filters;
+  }
+
+  private tokenize(token: TemplateToken): TemplateExpressionToken[] {
+    const tokens: TemplateExpressionToken[] = [];
+    const text = token.value;
+    let line = token.line;
+    let column = token.column;
+    let position = 0;
+    const advance = (length: number) => {
+      for (const char of text.slice(position, position + length)) {
+        if (char === "\n") {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+      }
+      position += length;
+    };
+
+    while (position < text.length) {
+      const rest = text.slice(position);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        advance(space[0].length);
+        continue;
+      }
+      const quote = rest[0];
+      if (quote === '"' || quote === "'") {
+        let value = "";
+        let end = 1;
+        while (end < rest.length && rest[end] !== quote) {
+          if (rest[end] === "\\" && end + 1 < rest.length) {
+            const escaped = rest[end + 1];
+            value += TemplateTagReader.ESCAPES[escaped] ?? escaped;
+            end += 2;
+          } else {
+            value += rest[end++];
+          }
+        }
+        if (end >= rest.length) {
+          throw new TemplateSyntaxError("字符串缺少结束引号", line, column);
+        }
+        tokens.push({ type: "string", value, line, column });
+        advance(end + 1);
+        continue;
+      }
+      const number = rest.match(/^\d+(?:\.\d+)?/);
+      const name = rest.match(/^[\p{L}_][\p{L}\p{N}_]*/u);
+      const operator = TemplateTagReader.OPERATORS.find((op) =>
+        rest.startsWith(op)
+      );
+      const [type, value] = number
+        ? ["number" as const, number[0]]
+        : name
+        ? ["name" as const, name[0]]
+        : operator
+        ? ["operator" as const, operator]
+        : [undefined, rest[0]];
+      if (!type) {
+        throw new TemplateSyntaxError(
+          `无法识别的字符 "${value}"`,
+          line,
+          column
+        );
+      }
+      tokens.push({ type, value, line, column });
+      advance(value.length);
+    }
+    tokens.push({ type: "end", value: "", line, column });
+    return tokens;
+  }
+
+  /**
+   * 标签名（if、for 等），内容为空时返回空串
+   */
+  readKeyword(): string {
+    return this.peek().type === "name" ? this.advance().value : "";
+  }
+
+  readName(): string {
+    const token = this.peek();
+    if (token.type !== "name") {
+      this.error("需要变量名");
+    }
+    return this.advance().value;
+  }
+
+  readString(): string {
+    const token = this.peek();
+    if (token.type !== "string") {
+      this.error("需要字符串");
+    }
+    return this.advance().value;
+  }
+
+  expectName(name: string): void {
+    if (!this.matchName(name)) {
+      this.error(`需要 ${name}`);
+    }
+  }
+
+  expectEnd(): void {
+    if (this.peek().type !== "end") {
+      this.error(`多余的内容 "${this.peek().value}"`);
+    }
+  }
+
+  parseExpression(): TemplateExpression {
+    let left = this.parseAnd();
+    while (this.matchName("or")) {
+      left = new TemplateLogical("or", left, this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): TemplateExpression {
+    let left = this.parseNot();
+    while (this.matchName("and")) {
+      left = new TemplateLogical("and", left, this.parseNot());
+    }
+    return left;
+  }
+
+  private parseNot(): TemplateExpression {
+    if (this.matchName("not")) {
+      return new TemplateNot(this.parseNot());
+    }
+    const left = this.parseFiltered();
+    const token = this.peek();
+    if (
+      token.type === "operator" &&
+      TemplateTagReader.COMPARISONS.includes(token.value)
+    ) {
+      this.advance();
+      return new TemplateComparison(token.value, left, this.parseFiltered());
+    }
+    return left;
+  }
+
+  private parseFiltered(): TemplateExpression {
+    let expression = this.parsePrimary();
+    while (this.matchOperator("|")) {
+      const token = this.peek();
+      const name = this.readName();
+      const filter = this.filters.get(name);
+      if (!filter) {
+        throw new TemplateSyntaxError(
+          `未知的过滤器: ${name}`,
+          token.line,
+          token.column
+        );
+      }
+      const args: TemplateExpression[] = [];
+      if (this.matchOperator("(") && !this.matchOperator(")")) {
+        do {
+          args.push(this.parseExpression());
+        } while (this.matchOperator(","));
+        this.expectOperator(")");
+      }
+      expression = new TemplateFilterCall(expression, filter, args);
+    }
+    return expression;
+  }
+
+  private parsePrimary(): TemplateExpression {
+    const token = this.peek();
+    if (this.matchOperator("(")) {
+      const expression = this.parseExpression();
+      this.expectOperator(")");
+      return expression;
+    }
+    if (token.type === "string") {
+      this.advance();
+      return new TemplateLiteral(token.value);
+    }
+    if (token.type === "number") {
+      this.advance();
+      return new TemplateLiteral(parseFloat(token.value));
+    }
+    if (token.type !== "name") {
+      return this.error("需要变量、字符串或数字");
+    }
+    this.advance();
+    if (token.value === "true" || token.value === "false") {
+      return new TemplateLiteral(token.value === "true");
+    }
+    if (token.value === "null") {
+      return new TemplateLiteral(null);
+    }
+    const path = [token.value];
+    while (this.matchOperator(".")) {
+      const key = this.peek();
+      if (key.type !== "name" && key.type !== "number") {
+        this.error("需要属性名");
+      }
+      path.push(this.advance().value);
+    }
+    return new TemplateVariable(path);
+  }
+
+  private matchName(name: string): boolean {
+    const token = this.peek();
+    if (token.type === "name" && token.value === name) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === operator) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      this.error(`需要 "${operator}"`);
+    }
+  }
+
+  private peek(): TemplateExpressionToken {
+    return this.tokens[this.current];
+  }
+
+  private advance(): TemplateExpressionToken {
+    const token = this.tokens[this.current];
+    if (token.type !== "end") {
+      this.current++;
+    }
+    return token;
+  }
+
+  private error(message: string): never {
+    const token = this.peek();
+    throw new TemplateSyntaxError(message, token.line, token.column);
+  }
+}
+
+/**
+ * 模板语法分析器：把词法单元组织成语法树
+ *
+ * 文法：
+ *   template := (TEXT | "{{" expression "}}" | if | for | include)*
+ *   if       := "{% if" expression "%}" template
+ *               ("{% elif" expression "%}" template)*
+ *               ("{% else %}" template)? "{% endif %}"
+ *   for      := "{% for" NAME "in" expression "%}" template
+ *               ("{% else %}" template)? "{% endfor %}"
+ *   include  := "{% include" STRING "%}"
+ */
+class TemplateParser {
+  private tokens: TemplateToken[];
+  private current: number = 0;
+  private filters: Map<string, TemplateFilter>;
+
+  constructor(tokens: TemplateToken[], filters: Map<string, TemplateFilter>) {
+    this.tokens = tokens;
+    this.filters = filters;
+  }
+
+  parse(): TemplateNode {
+    return this.parseBody([]);
+  }
+
+  /**
+   * 解析到 terminators 中的某个标签（不消耗该标签）或模板结尾为止
+   */
+  private parseBody(terminators: string[]): TemplateNode {
+    const children: TemplateNode[] = [];
+    while (this.current < this.tokens.length) {
+      const token = this.tokens[this.current];
+      if (token.type === "text") {
+        children.push(new TemplateText(token.value));
+        this.current++;
+        continue;
+      }
+      const reader = new TemplateTagReader(token, this.filters);
+      if (token.type === "output") {
+        const expression = reader.parseExpression();
+        reader.expectEnd();
+        children.push(new TemplateOutput(expression));
+        this.current++;
+        continue;
+      }
+
+      const keyword = reader.readKeyword();
+      if (terminators.includes(keyword)) {
+        break;
+      }
+      this.current++;
+      switch (keyword) {
+        case "if":
+          children.push(this.parseIf(reader, token));
+          break;
+        case "for":
+          children.push(this.parseFor(reader, token));
+          break;
+        case "include":
+          children.push(new TemplateInclude(reader.readString()));
+          reader.expectEnd();
+          break;
+        case "elif":
+        case "else":
+        case "endif":
+        case "endfor":
+          throw new TemplateSyntaxError(
+            `多余的 {% ${keyword} %}`,
+            token.line,
+            token.column
+          );
+        default:
+          throw new TemplateSyntaxError(
+            keyword ? `未知的标签: ${keyword}` : "标签为空",
+            token.line,
+            token.column
+          );
+      }
+    }
+    return new TemplateSequence(children);
+  }
+
+  private parseIf(reader: TemplateTagReader, start: TemplateToken): TemplateIf {
+    const branches: { condition: TemplateExpression; body: TemplateNode }[] =
+      [];
+    let condition = reader.parseExpression();
+    reader.expectEnd();
+    while (true) {
+      const body = this.parseBody(["elif", "else", "endif"]);
+      branches.push({ condition, body });
+      const [keyword, next] = this.closeBlock(start, "endif");
+      if (keyword === "elif") {
+        condition = next.parseExpression();
+        next.expectEnd();
+        continue;
+      }
+      next.expectEnd();
+      let otherwise: TemplateNode | undefined;
+      if (keyword === "else") {
+        otherwise = this.parseBody(["endif"]);
+        this.closeBlock(start, "endif")[1].expectEnd();
+      }
+      return new TemplateIf(branches, otherwise);
+    }
+  }
+
+  private parseFor(
+    reader: TemplateTagReader,
+    start: TemplateToken
+  ): TemplateFor {
+    const variable = reader.readName();
+    reader.expectName("in");
+    const iterable = reader.parseExpression();
+    reader.expectEnd();
+    const body = this.parseBody(["else", "endfor"]);
+    const [keyword, next] = this.closeBlock(start, "endfor");
+    next.expectEnd();
+    let otherwise: TemplateNode | undefined;
+    if (keyword === "else") {
+      otherwise = this.parseBody(["endfor"]);
+      this.closeBlock(start, "endfor")[1].expectEnd();
+    }
+    return new TemplateFor(variable, iterable, body, otherwise);
+  }
+
+  /**
+   * 消耗使 parseBody 停下的标签，返回标签名和读取其余内容的 reader；
+   * 模板已经结束时报告缺少的结束标签
+   */
+  private closeBlock(
+    start: TemplateToken,
+    end: string
+  ): [string, TemplateTagReader] {
+    const token = this.tokens[this.current];
+    if (!token) {
+      throw new TemplateSyntaxError(
+        `缺少 {% ${end} %}`,
+        start.line,
+        start.column
+      );
+    }
+    this.current++;
+    const reader = new TemplateTagReader(token, this.filters);
+    return [reader.readKeyword(), reader];
+  }
+}
+
+/**
+ * 模板引擎选项
+ */
+interface TemplateEngineOptions {
+  // 是否转义 {{ }} 输出中的 HTML 特殊字符，默认转义；
+  // 生成非 HTML 文本时需要显式传入 false
+  autoescape?: boolean;
+}
+
+/**
+ * 编译后的模板，可以用不同的数据重复渲染
+ */
+class CompiledTemplate {
+  private root: TemplateNode;
+  private engine: TemplateEngine;
+
+  constructor(root: TemplateNode, engine: TemplateEngine) {
+    this.root = root;
+    this.engine = engine;
+  }
+
+  render(data: TemplateContext = {}): string {
+    return this.root.render(new TemplateScope(data, this.engine));
+  }
+}
+
+/**
+ * 模板引擎：管理过滤器和局部模板，编译并渲染模板
+ *
+ * 过滤器在编译时查找，因此需要在编译使用它的模板之前注册；局部模板在渲染时
+ * 按名称查找，可以相互包含。
+ */
+class TemplateEngine {
+  private static readonly MAX_PARTIAL_DEPTH = 32;
+  private static readonly ESCAPES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+  };
+
+  private autoescape: boolean;
+  private filters: Map<string, TemplateFilter>;
+  private partials: Map<string, TemplateNode> = new Map();
+  private tokenizer: TemplateTokenizer = new TemplateTokenizer();
+
+  constructor(options: TemplateEngineOptions = {}) {
+    this.autoescape = options.autoescape ?? true;
+    this.filters = new Map(Object.entries(TEMPLATE_FILTERS));
+  }
+
+  registerFilter(name: string, filter: TemplateFilter): void {
+    this.filters.set(name, filter);
+  }
+
+  /**
+   * 注册局部模板，供 {% include "name" %} 使用；注册时即检查语法
+   */
+  registerPartial(name: string, source: string): void {
+    this.partials.set(name, this.parse(source));
+  }
+
+  compile(source: string): CompiledTemplate {
+    return new CompiledTemplate(this.parse(source), this);
+  }
+
+  render(source: string, data: TemplateContext = {}): string {
+    return this.compile(source).render(data);
+  }
+
+  renderPartial(name: string, scope: TemplateScope): string {
+    const partial = this.partials.get(name);
+    if (!partial) {
+      throw new Error(`未知的局部模板: ${name}`);
+    }
+    if (scope.getDepth() >= TemplateEngine.MAX_PARTIAL_DEPTH) {
+      throw new Error(`局部模板嵌套过深: ${name}`);
+    }
+    return partial.render(scope.nested());
+  }
+
+  /**
+   * {{ }} 输出的文本：null 和 undefined 输出为空，safe 过滤器的结果不转义
+   */
+  stringify(value: any): string {
+    if (value === null || value === undefined) {
+      return "";
+    }
+    if (value instanceof SafeString || !this.autoescape) {
+      return String(value);
+    }
+    return String(value).replace(
+      /[&<>"']/g,
+      (char) => TemplateEngine.ESCAPES[char]
+    );
+  }
+
+  private parse(source: string): TemplateNode {
+    const tokens = this.tokenizer.tokenize(source);
+    return new TemplateParser(tokens, this.filters).parse();
+  }
+}
+
 /**
  * 文档生成器模板
  */
 abstract class DocumentGenerator {
+  private templateEngine?: TemplateEngine;
+
   // 模板方法：生成文档的流程
   public generateDocument(title: string, content: string): string {
     console.log(`开始生成文档: ${title}`);
+    return this.assembleDocument(title, this.formatContent(content));
+  }
+
+  // 模板方法：用模板和数据生成报告，渲染结果直接作为正文
+  public generateReport(
+    title: string,
+    template: string,
+    data: TemplateContext
+  ): string {
+    console.log(`开始生成报告: ${title}`);
+    const content = this.getTemplateEngine().render(template, data);
+    return this.assembleDocument(title, content);
+  }
+
+  // 生成器使用的模板引擎，可以在其上注册局部模板和过滤器
+  public getTemplateEngine(): TemplateEngine {
+    if (!this.templateEngine) {
+      this.templateEngine = this.createTemplateEngine();
+    }
+    return this.templateEngine;
+  }
 
+  private assembleDocument(title: string, content: string): string {
     let document = this.createDocumentHeader(title);
-    document += this.formatContent(content);
+    document += content;
     document += this.createDocumentFooter();
 
     if (this.shouldAddMetadata()) {
@@ -421,6 +1534,10 @@ abstract class DocumentGenerator {
   protected addMetadata(): string {
     return "";
   }
+
+  protected createTemplateEngine(): TemplateEngine {
+    return new TemplateEngine();
+  }
 }
 
 /**
@@ -494,6 +1611,11 @@ class MarkdownDocumentGenerator extends DocumentGenerator {
   protected addMetadata(): string {
     return `**Created:** ${new Date().toISOString()}\n\n`;
   }
+
+  // Markdown 不是 HTML，输出的数据不转义
+  protected createTemplateEngine(): TemplateEngine {
+    return new TemplateEngine({ autoescape: false });
+  }
 }
 
 // =============================================================================
@@ -566,6 +1688,62 @@ export function demonstrateTemplateMethodPattern(): void {
   console.log("生成的Markdown文档：");
   console.log(markdownDoc);
 
+  console.log("\n---");
+  const report = {
+    author: "<张三>",
+    updatedAt: "2024-03-15T08:30:00Z",
+    patterns: [
+      { name: "Template Method", category: "behavioral", stars: 5 },
+      { name: "Interpreter", category: "behavioral", stars: 4 },
+      { name: "Adapter", category: "structural", stars: 3 },
+    ],
+  };
+  htmlGenerator
+    .getTemplateEngine()
+    .registerPartial(
+      "pattern",
+      "<li>{{ item.name }}{% if item.stars >= 4 %} <b>推荐</b>{% endif %}</li>"
+    );
+  const htmlReport = htmlGenerator.generateReport(
+    "设计模式报告",
+    `    <p>作者：{{ author }}，更新于 {{ updatedAt | date("YYYY年MM月DD日") }}</p>
+    <ul>
+    {% for item in patterns %}
+      {% include "pattern" %}
+    {% else %}
+      <li>暂无数据</li>
+    {% endfor %}
+    </ul>
+`,
+    report
+  );
+  console.log("生成的HTML报告（数据已转义）：");
+  console.log(htmlReport);
+
+  console.log("\n---");
+  const markdownReport = markdownGenerator.generateReport(
+    "设计模式报告",
+    `更新于 {{ updatedAt | date("YYYY-MM-DD HH:mm") }}，共 {{ patterns | length }} 个模式
+
+| # | 名称 | 类型 |
+|---|------|------|
+{% for item in patterns %}
+| {{ loop.index }} | {{ item.name }} | {{ item.category | upper }} |
+{% endfor %}
+
+{# 评分最高的模式 #}
+{% for item in patterns %}
+{% if item.stars == 5 and item.category == "behavioral" %}
+**首选：** {{ item.name }}
+{% endif %}
+{% endfor %}
+
+`,
+    report
+  );
+  console.log("生成的Markdown报告：");
+  console.log(markdownReport);
+
   console.log("\n=== 模板方法模式演示完成 ===");
 }
 
@@ -586,4 +1764,10 @@ export {
   DocumentGenerator,
   HTMLDocumentGenerator,
   MarkdownDocumentGenerator,
+  TemplateContext,
+  TemplateFilter,
+  TemplateSyntaxError,
+  TemplateEngineOptions,
+  TemplateEngine,
+  CompiledTemplate,
 };
@@ -17,25 +17,28 @@
 
 /**
  * 抽象访问者
+ *
+ * R 为访问的结果类型：访问者直接返回结果，而不是累积在自身的字段中，
+ * 因此同一个访问者可以重复使用、嵌套使用。只产生副作用的访问者使用默认的 void。
  */
-interface Visitor {
-  visitConcreteElementA(element: ConcreteElementA): void;
-  visitConcreteElementB(element: ConcreteElementB): void;
+interface Visitor<R = void> {
+  visitConcreteElementA(element: ConcreteElementA): R;
+  visitConcreteElementB(element: ConcreteElementB): R;
 }
 
 /**
  * 抽象元素
  */
 interface Element {
-  accept(visitor: Visitor): void;
+  accept<R>(visitor: Visitor<R>): R;
 }
 
 /**
  * 具体元素A
  */
 class ConcreteElementA implements Element {
-  accept(visitor: Visitor): void {
-    visitor.visitConcreteElementA(this);
+  accept<R>(visitor: Visitor<R>): R {
+    return visitor.visitConcreteElementA(this);
   }
 
   operationA(): string {
@@ -47,8 +50,8 @@ class ConcreteElementA implements Element {
  * 具体元素B
  */
 class ConcreteElementB implements Element {
-  accept(visitor: Visitor): void {
-    visitor.visitConcreteElementB(this);
+  accept<R>(visitor: Visitor<R>): R {
+    return visitor.visitConcreteElementB(this);
   }
 
   operationB(): string {
@@ -99,8 +102,8 @@ class ObjectStructure {
     }
   }
 
-  accept(visitor: Visitor): void {
-    this.elements.forEach((element) => element.accept(visitor));
+  accept<R>(visitor: Visitor<R>): R[] {
+    return this.elements.map((element) => element.accept(visitor));
   }
 }
 
@@ -111,10 +114,10 @@ class ObjectStructure {
 /**
  * 图形访问者接口
  */
-interface ShapeVisitor {
-  visitCircle(circle: Circle): void;
-  visitRectangle(rectangle: Rectangle): void;
-  visitTriangle(triangle: Triangle): void;
+interface ShapeVisitor<R = void> {
+  visitCircle(circle: Circle): R;
+  visitRectangle(rectangle: Rectangle): R;
+  visitTriangle(triangle: Triangle): R;
 }
 
 /**
@@ -123,7 +126,7 @@ interface ShapeVisitor {
 abstract class Shape {
   constructor(protected x: number, protected y: number) {}
 
-  abstract accept(visitor: ShapeVisitor): void;
+  abstract accept<R>(visitor: ShapeVisitor<R>): R;
 
   getX(): number {
     return this.x;
@@ -141,8 +144,8 @@ class Circle extends Shape {
     super(x, y);
   }
 
-  accept(visitor: ShapeVisitor): void {
-    visitor.visitCircle(this);
+  accept<R>(visitor: ShapeVisitor<R>): R {
+    return visitor.visitCircle(this);
   }
 
   getRadius(): number {
@@ -163,8 +166,8 @@ class Rectangle extends Shape {
     super(x, y);
   }
 
-  accept(visitor: ShapeVisitor): void {
-    visitor.visitRectangle(this);
+  accept<R>(visitor: ShapeVisitor<R>): R {
+    return visitor.visitRectangle(this);
   }
 
   getWidth(): number {
@@ -189,8 +192,8 @@ class Triangle extends Shape {
     super(x, y);
   }
 
-  accept(visitor: ShapeVisitor): void {
-    visitor.visitTriangle(this);
+  accept<R>(visitor: ShapeVisitor<R>): R {
+    return visitor.visitTriangle(this);
   }
 
   getBase(): number {
@@ -203,35 +206,23 @@ class Triangle extends Shape {
 }
 
 /**
- * 面积计算访问者
+ * 面积计算访问者：返回图形的面积
  */
-class AreaCalculator implements ShapeVisitor {
-  private totalArea: number = 0;
-
-  visitCircle(circle: Circle): void {
-    const area = Math.PI * circle.getRadius() * circle.getRadius();
-    console.log(`圆形面积: ${area.toFixed(2)}`);
-    this.totalArea += area;
+class AreaCalculator implements ShapeVisitor<number> {
+  visitCircle(circle: Circle): number {
+    return Math.PI * circle.getRadius() * circle.getRadius();
   }
 
-  visitRectangle(rectangle: Rectangle): void {
-    const area = rectangle.getWidth() * rectangle.getHeight();
-    console.log(`矩形面积: ${area.toFixed(2)}`);
-    this.totalArea += area;
-  }
-
-  visitTriangle(triangle: Triangle): void {
-    const area = 0.5 * triangle.getBase() * triangle.getHeight();
-    console.log(`三角形面积: ${area.toFixed(2)}`);
-    this.totalArea += area;
+  visitRectangle(rectangle: Rectangle): number {
+    return rectangle.getWidth() * rectangle.getHeight();
   }
 
-  getTotalArea(): number {
-    return this.totalArea;
+  visitTriangle(triangle: Triangle): number {
+    return 0.5 * triangle.getBase() * triangle.getHeight();
   }
 
-  reset(): void {
-    this.totalArea = 0;
+  getTotalArea(shapes: Shape[]): number {
+    return shapes.reduce((total, shape) => total + shape.accept(this), 0);
   }
 }
 
@@ -305,9 +296,11 @@ class DrawingVisitor implements ShapeVisitor {
 /**
  * 文件系统访问者接口
  */
-interface FileSystemVisitor {
-  visitFile(file: File): void;
-  visitDirectory(directory: Directory): void;
+interface FileSystemVisitor<R = void> {
+  // 为 true 时由 visitDirectory 自己访问子节点，accept 不再自动递归
+  readonly visitsChildren?: boolean;
+  visitFile(file: File): R;
+  visitDirectory(directory: Directory): R;
 }
 
 /**
@@ -316,7 +309,7 @@ interface FileSystemVisitor {
 abstract class FileSystemNode {
   constructor(protected name: string, protected size: number) {}
 
-  abstract accept(visitor: FileSystemVisitor): void;
+  abstract accept<R>(visitor: FileSystemVisitor<R>): R;
 
   getName(): string {
     return this.name;
@@ -334,8 +327,8 @@ class File extends FileSystemNode {
     super(name, size);
   }
 
-  accept(visitor: FileSystemVisitor): void {
-    visitor.visitFile(this);
+  accept<R>(visitor: FileSystemVisitor<R>): R {
+    return visitor.visitFile(this);
   }
 
   getExtension(): string {
@@ -353,9 +346,16 @@ class Directory extends FileSystemNode {
     super(name, 0);
   }
 
-  accept(visitor: FileSystemVisitor): void {
-    visitor.visitDirectory(this);
-    this.children.forEach((child) => child.accept(visitor));
+  /**
+   * 先访问目录本身，再依次访问子节点，返回目录本身的访问结果。
+   * visitsChildren 为 true 的访问者自己在 visitDirectory 中访问子节点
+   */
+  accept<R>(visitor: FileSystemVisitor<R>): R {
+    const result = visitor.visitDirectory(this);
+    if (!visitor.visitsChildren) {
+      this.children.forEach((child) => child.accept(visitor));
+    }
+    return result;
   }
 
   addChild(child: FileSystemNode): void {
@@ -369,43 +369,37 @@ class Directory extends FileSystemNode {
 }
 
 /**
- * 文件大小统计访问者
+ * 文件大小统计结果
  */
-class FileSizeCalculator implements FileSystemVisitor {
-  private totalSize: number = 0;
-  private fileCount: number = 0;
-  private directoryCount: number = 0;
+interface FileSizeSummary {
+  totalSize: number;
+  fileCount: number;
+  directoryCount: number;
+}
 
-  visitFile(file: File): void {
-    this.totalSize += file.getSize();
-    this.fileCount++;
-    console.log(
-      `文件: ${file.getName()}.${file.getExtension()} (${file.getSize()} bytes)`
+/**
+ * 文件大小统计访问者：目录的统计结果由子节点的结果汇总而来
+ */
+class FileSizeCalculator implements FileSystemVisitor<FileSizeSummary> {
+  readonly visitsChildren = true;
+
+  visitFile(file: File): FileSizeSummary {
+    return { totalSize: file.getSize(), fileCount: 1, directoryCount: 0 };
+  }
+
+  visitDirectory(directory: Directory): FileSizeSummary {
+    return directory.getChildren().reduce(
+      (summary, child) => {
+        const childSummary = child.accept(this);
+        return {
+          totalSize: summary.totalSize + childSummary.totalSize,
+          fileCount: summary.fileCount + childSummary.fileCount,
+          directoryCount: summary.directoryCount + childSummary.directoryCount,
+        };
+      },
+      { totalSize: 0, fileCount: 0, directoryCount: 1 }
     );
   }
-
-  visitDirectory(directory: Directory): void {
-    this.directoryCount++;
-    console.log(`目录: ${directory.getName()}/`);
-  }
-
-  getTotalSize(): number {
-    return this.totalSize;
-  }
-
-  getFileCount(): number {
-    return this.fileCount;
-  }
-
-  getDirectoryCount(): number {
-    return this.directoryCount;
-  }
-
-  reset(): void {
-    this.totalSize = 0;
-    this.fileCount = 0;
-    this.directoryCount = 0;
-  }
 }
 
 /**
@@ -482,17 +476,17 @@ class FilePermissionChecker implements FileSystemVisitor {
 /**
  * AST访问者接口
  */
-interface ASTVisitor {
-  visitNumber(node: NumberNode): void;
-  visitBinaryOp(node: BinaryOpNode): void;
-  visitVariable(node: VariableNode): void;
+interface ASTVisitor<R = void> {
+  visitNumber(node: NumberNode): R;
+  visitBinaryOp(node: BinaryOpNode): R;
+  visitVariable(node: VariableNode): R;
 }
 
 /**
  * AST节点抽象类
  */
 abstract class ASTNode {
-  abstract accept(visitor: ASTVisitor): void;
+  abstract accept<R>(visitor: ASTVisitor<R>): R;
 }
 
 /**
@@ -503,8 +497,8 @@ class NumberNode extends ASTNode {
     super();
   }
 
-  accept(visitor: ASTVisitor): void {
-    visitor.visitNumber(this);
+  accept<R>(visitor: ASTVisitor<R>): R {
+    return visitor.visitNumber(this);
   }
 
   getValue(): number {
@@ -524,8 +518,8 @@ class BinaryOpNode extends ASTNode {
     super();
   }
 
-  accept(visitor: ASTVisitor): void {
-    visitor.visitBinaryOp(this);
+  accept<R>(visitor: ASTVisitor<R>): R {
+    return visitor.visitBinaryOp(this);
   }
 
   getLeft(): ASTNode {
@@ -549,8 +543,8 @@ class VariableNode extends ASTNode {
     super();
   }
 
-  accept(visitor: ASTVisitor): void {
-    visitor.visitVariable(this);
+  accept<R>(visitor: ASTVisitor<R>): R {
+    return visitor.visitVariable(this);
   }
 
   getName(): string {
@@ -559,98 +553,426 @@ class VariableNode extends ASTNode {
 }
 
 /**
- * 表达式求值访问者
+ * 二元运算符的计算
  */
-class EvaluationVisitor implements ASTVisitor {
-  private stack: number[] = [];
-  private variables: Map<string, number> = new Map();
-
-  setVariable(name: string, value: number): void {
-    this.variables.set(name, value);
+function applyOperator(operator: string, left: number, right: number): number {
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    default:
+      throw new Error(`不支持的运算符: ${operator}`);
   }
+}
+
+/**
+ * 表达式求值访问者：返回表达式的值，未定义的变量按 0 计算
+ */
+class EvaluationVisitor implements ASTVisitor<number> {
+  constructor(private variables: ReadonlyMap<string, number> = new Map()) {}
 
-  visitNumber(node: NumberNode): void {
-    this.stack.push(node.getValue());
+  visitNumber(node: NumberNode): number {
+    return node.getValue();
   }
 
-  visitBinaryOp(node: BinaryOpNode): void {
-    node.getLeft().accept(this);
-    node.getRight().accept(this);
+  visitBinaryOp(node: BinaryOpNode): number {
+    return applyOperator(
+      node.getOperator(),
+      node.getLeft().accept(this),
+      node.getRight().accept(this)
+    );
+  }
 
-    const right = this.stack.pop()!;
-    const left = this.stack.pop()!;
+  visitVariable(node: VariableNode): number {
+    return this.variables.get(node.getName()) || 0;
+  }
+}
 
-    switch (node.getOperator()) {
-      case "+":
-        this.stack.push(left + right);
-        break;
-      case "-":
-        this.stack.push(left - right);
-        break;
-      case "*":
-        this.stack.push(left * right);
-        break;
-      case "/":
-        this.stack.push(left / right);
-        break;
+/**
+ * 代码生成访问者：返回栈式指令序列
+ */
+class CodeGenerationVisitor implements ASTVisitor<string[]> {
+  private static readonly INSTRUCTIONS: Record<string, string> = {
+    "+": "ADD",
+    "-": "SUB",
+    "*": "MUL",
+    "/": "DIV",
+  };
+
+  visitNumber(node: NumberNode): string[] {
+    return [`PUSH ${node.getValue()}`];
+  }
+
+  visitBinaryOp(node: BinaryOpNode): string[] {
+    const instruction = CodeGenerationVisitor.INSTRUCTIONS[node.getOperator()];
+    if (!instruction) {
+      throw new Error(`不支持的运算符: ${node.getOperator()}`);
+    }
+    return [
+      ...node.getLeft().accept(this),
+      ...node.getRight().accept(this),
+      instruction,
+    ];
+  }
+
+  visitVariable(node: VariableNode): string[] {
+    // 指令以空白分隔操作数，变量名中不能有空白
+    if (!/^\S+$/.test(node.getName())) {
+      throw new Error(
+        `无法为变量名生成代码: ${JSON.stringify(node.getName())}`
+      );
     }
+    return [`LOAD ${node.getName()}`];
   }
+}
+
+// =============================================================================
+// 示例4：栈式虚拟机
+// =============================================================================
 
-  visitVariable(node: VariableNode): void {
-    const value = this.variables.get(node.getName()) || 0;
-    this.stack.push(value);
+/**
+ * 虚拟机指令，即 CodeGenerationVisitor 生成的代码
+ */
+type VMOpcode = "PUSH" | "LOAD" | "ADD" | "SUB" | "MUL" | "DIV";
+
+interface VMInstruction {
+  opcode: VMOpcode;
+  // PUSH 的数值或 LOAD 的变量名
+  operand?: number | string;
+}
+
+/**
+ * 虚拟机错误：记录出错指令的序号（从 0 开始）；
+ * 解码二进制程序出错时还记录出错的字节位置
+ */
+class VirtualMachineError extends Error {
+  readonly pc: number;
+  readonly offset?: number;
+
+  constructor(message: string, pc: number, offset?: number) {
+    super(
+      offset === undefined
+        ? `${message}（第${pc + 1}条指令）`
+        : `${message}（第${pc + 1}条指令，第${offset}字节）`
+    );
+    this.name = "VirtualMachineError";
+    this.pc = pc;
+    this.offset = offset;
   }
+}
 
-  getResult(): number {
-    return this.stack.length > 0 ? this.stack[this.stack.length - 1] : 0;
+/**
+ * 把 "PUSH 2"、"LOAD x"、"ADD" 形式的文本解析为指令
+ */
+function parseInstruction(text: string, pc: number = 0): VMInstruction {
+  const [opcode, operand, ...rest] = text.trim().split(/\s+/);
+  const arity = opcode === "PUSH" || opcode === "LOAD" ? 1 : 0;
+  if (!["PUSH", "LOAD", "ADD", "SUB", "MUL", "DIV"].includes(opcode)) {
+    throw new VirtualMachineError(`未知的指令: ${text}`, pc);
+  }
+  if ((operand === undefined ? 0 : 1 + rest.length) !== arity) {
+    throw new VirtualMachineError(
+      `${opcode} 需要${arity}个操作数: ${text}`,
+      pc
+    );
   }
+  if (opcode === "PUSH") {
+    const value = Number(operand);
+    if (isNaN(value) && operand !== "NaN") {
+      throw new VirtualMachineError(`PUSH 需要数字: ${text}`, pc);
+    }
+    return { opcode: "PUSH", operand: value };
+  }
+  return { opcode: opcode as VMOpcode, operand };
+}
 
-  reset(): void {
-    this.stack = [];
+/**
+ * 把文本指令解析为指令对象，并按与文本相同的规则检查指令对象：
+ * PUSH 的操作数是数字，LOAD 的操作数是不含空白的变量名，其他指令没有操作数
+ */
+function toInstruction(
+  instruction: string | VMInstruction,
+  pc: number
+): VMInstruction {
+  if (typeof instruction === "string") {
+    return parseInstruction(instruction, pc);
+  }
+  const { opcode, operand } = instruction;
+  const text = JSON.stringify(instruction);
+  if (!["PUSH", "LOAD", "ADD", "SUB", "MUL", "DIV"].includes(opcode)) {
+    throw new VirtualMachineError(`未知的指令: ${text}`, pc);
+  }
+  if (opcode === "PUSH" && typeof operand !== "number") {
+    throw new VirtualMachineError(`PUSH 需要数字: ${text}`, pc);
+  }
+  if (
+    opcode === "LOAD" &&
+    (typeof operand !== "string" || !/^\S+$/.test(operand))
+  ) {
+    throw new VirtualMachineError(`LOAD 需要变量名: ${text}`, pc);
   }
+  if (opcode !== "PUSH" && opcode !== "LOAD" && operand !== undefined) {
+    throw new VirtualMachineError(`${opcode} 需要0个操作数: ${text}`, pc);
+  }
+  return instruction;
+}
+
+function formatInstruction(instruction: VMInstruction): string {
+  return instruction.operand === undefined
+    ? instruction.opcode
+    : `${instruction.opcode} ${instruction.operand}`;
 }
 
 /**
- * 代码生成访问者
+ * 栈式虚拟机：依次执行指令，程序结束时栈中应恰好剩下一个值作为结果
+ *
+ * LOAD 未定义的变量得到 0，与 EvaluationVisitor 一致；除数为零时报错。
  */
-class CodeGenerationVisitor implements ASTVisitor {
-  private code: string[] = [];
+class StackVirtualMachine {
+  private static readonly OPERATORS: Record<string, string> = {
+    ADD: "+",
+    SUB: "-",
+    MUL: "*",
+    DIV: "/",
+  };
+
+  constructor(private variables: ReadonlyMap<string, number> = new Map()) {}
+
+  /**
+   * 执行文本指令、指令对象或二进制编码的程序
+   */
+  execute(program: string[] | VMInstruction[] | Uint8Array): number {
+    const instructions =
+      program instanceof Uint8Array
+        ? decodeProgram(program)
+        : (program as (string | VMInstruction)[]).map(toInstruction);
+
+    const stack: number[] = [];
+    instructions.forEach((instruction, pc) => {
+      switch (instruction.opcode) {
+        case "PUSH":
+          stack.push(instruction.operand as number);
+          return;
+        case "LOAD":
+          stack.push(this.variables.get(instruction.operand as string) || 0);
+          return;
+      }
+      if (stack.length < 2) {
+        throw new VirtualMachineError(
+          `栈下溢：${instruction.opcode} 需要2个操作数，栈中只有${stack.length}个`,
+          pc
+        );
+      }
+      const right = stack.pop()!;
+      const left = stack.pop()!;
+      if (instruction.opcode === "DIV" && right === 0) {
+        throw new VirtualMachineError("除数不能为零", pc);
+      }
+      stack.push(
+        applyOperator(
+          StackVirtualMachine.OPERATORS[instruction.opcode],
+          left,
+          right
+        )
+      );
+    });
 
-  visitNumber(node: NumberNode): void {
-    this.code.push(`PUSH ${node.getValue()}`);
+    if (stack.length !== 1) {
+      throw new VirtualMachineError(
+        `程序结束时栈中应只有一个值，实际有${stack.length}个`,
+        Math.max(instructions.length - 1, 0)
+      );
+    }
+    return stack[0];
   }
+}
+
+/**
+ * 二进制编码的操作码。PUSH 按数值选择最短的编码：
+ * -128~127 的整数占 1 字节，32 位整数占 4 字节，其他数值占 8 字节（float64）
+ */
+const VM_OPCODES = {
+  PUSH_INT8: 0x01,
+  PUSH_INT32: 0x02,
+  PUSH_FLOAT64: 0x03,
+  LOAD: 0x04,
+  ADD: 0x10,
+  SUB: 0x11,
+  MUL: 0x12,
+  DIV: 0x13,
+};
+
+/**
+ * 把程序编码为二进制：
+ *   names        := u8 数量, (u8 字节数, UTF-8 名称)*   —— LOAD 引用的变量名表
+ *   instruction  := PUSH_INT8 i8 | PUSH_INT32 i32 | PUSH_FLOAT64 f64
+ *                 | LOAD u8 名称序号 | ADD | SUB | MUL | DIV
+ * 多字节数值均为小端序。
+ */
+function encodeProgram(program: string[] | VMInstruction[]): Uint8Array {
+  const instructions = (program as (string | VMInstruction)[]).map(
+    toInstruction
+  );
+  const encoder = new TextEncoder();
+  const names: string[] = [];
+  const bytes: number[] = [];
+  const pushNumber = (size: number, write: (view: DataView) => void) => {
+    const view = new DataView(new ArrayBuffer(size));
+    write(view);
+    bytes.push(...new Uint8Array(view.buffer));
+  };
+
+  instructions.forEach((instruction, pc) => {
+    const operand = instruction.operand;
+    switch (instruction.opcode) {
+      case "PUSH": {
+        const value = operand as number;
+        // -0 按 float64 编码以保留符号
+        const integer = Number.isInteger(value) && !Object.is(value, -0);
+        if (integer && value >= -128 && value <= 127) {
+          bytes.push(VM_OPCODES.PUSH_INT8);
+          pushNumber(1, (view) => view.setInt8(0, value));
+        } else if (integer && value === (value | 0)) {
+          bytes.push(VM_OPCODES.PUSH_INT32);
+          pushNumber(4, (view) => view.setInt32(0, value, true));
+        } else {
+          bytes.push(VM_OPCODES.PUSH_FLOAT64);
+          pushNumber(8, (view) => view.setFloat64(0, value, true));
+        }
+        return;
+      }
+      case "LOAD": {
+        let index = names.indexOf(operand as string);
+        if (index < 0) {
+          if (names.length === 255) {
+            throw new VirtualMachineError("变量名不能超过255个", pc);
+          }
+          if (encoder.encode(operand as string).length > 255) {
+            throw new VirtualMachineError(`变量名过长: ${operand}`, pc);
+          }
+          index = names.push(operand as string) - 1;
+        }
+        bytes.push(VM_OPCODES.LOAD, index);
+        return;
+      }
+      default:
+        bytes.push(VM_OPCODES[instruction.opcode]);
+    }
+  });
 
-  visitBinaryOp(node: BinaryOpNode): void {
-    node.getLeft().accept(this);
-    node.getRight().accept(this);
+  const header: number[] = [names.length];
+  for (const name of names) {
+    const encoded = encoder.encode(name);
+    header.push(encoded.length, ...encoded);
+  }
+  return new Uint8Array([...header, ...bytes]);
+}
 
-    switch (node.getOperator()) {
-      case "+":
-        this.code.push("ADD");
+/**
+ * 逐条解码二进制程序，offset 为指令在字节序列中的位置
+ */
+function readProgram(
+  bytes: Uint8Array
+): { offset: number; size: number; instruction: VMInstruction }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const result: { offset: number; size: number; instruction: VMInstruction }[] =
+    [];
+  // 变量名表被截断时按第一条指令出错报告
+  const truncated = (offset: number): never => {
+    throw new VirtualMachineError("二进制程序被截断", result.length, offset);
+  };
+
+  let offset = 0;
+  const names: string[] = [];
+  const nameCount = bytes[offset++] ?? truncated(0);
+  for (let i = 0; i < nameCount; i++) {
+    const length = bytes[offset] ?? truncated(offset);
+    if (offset + 1 + length > bytes.length) {
+      truncated(offset);
+    }
+    names.push(decoder.decode(bytes.subarray(offset + 1, offset + 1 + length)));
+    offset += 1 + length;
+  }
+
+  const binary: Record<number, VMOpcode> = {
+    [VM_OPCODES.ADD]: "ADD",
+    [VM_OPCODES.SUB]: "SUB",
+    [VM_OPCODES.MUL]: "MUL",
+    [VM_OPCODES.DIV]: "DIV",
+  };
+  while (offset < bytes.length) {
+    const start = offset;
+    const opcode = bytes[offset++];
+    const need = (size: number) => {
+      if (offset + size > bytes.length) {
+        truncated(start);
+      }
+      offset += size;
+      return offset - size;
+    };
+    let instruction: VMInstruction;
+    switch (opcode) {
+      case VM_OPCODES.PUSH_INT8:
+        instruction = { opcode: "PUSH", operand: view.getInt8(need(1)) };
         break;
-      case "-":
-        this.code.push("SUB");
+      case VM_OPCODES.PUSH_INT32:
+        instruction = { opcode: "PUSH", operand: view.getInt32(need(4), true) };
         break;
-      case "*":
-        this.code.push("MUL");
+      case VM_OPCODES.PUSH_FLOAT64:
+        instruction = {
+          opcode: "PUSH",
+          operand: view.getFloat64(need(8), true),
+        };
         break;
-      case "/":
-        this.code.push("DIV");
+      case VM_OPCODES.LOAD: {
+        const name = names[bytes[need(1)]];
+        if (name === undefined) {
+          throw new VirtualMachineError(
+            "LOAD 引用了不存在的变量名",
+            result.length,
+            start
+          );
+        }
+        instruction = { opcode: "LOAD", operand: name };
         break;
+      }
+      default:
+        if (!binary[opcode]) {
+          throw new VirtualMachineError(
+            `未知的操作码 0x${opcode.toString(16)}`,
+            result.length,
+            start
+          );
+        }
+        instruction = { opcode: binary[opcode] };
     }
+    result.push({ offset: start, size: offset - start, instruction });
   }
+  return result;
+}
 
-  visitVariable(node: VariableNode): void {
-    this.code.push(`LOAD ${node.getName()}`);
-  }
-
-  getCode(): string[] {
-    return this.code;
-  }
+function decodeProgram(bytes: Uint8Array): VMInstruction[] {
+  return readProgram(bytes).map(({ instruction }) => instruction);
+}
 
-  reset(): void {
-    this.code = [];
-  }
+/**
+ * 反汇编：每行为指令的字节位置、原始字节和对应的文本指令
+ */
+function disassemble(bytes: Uint8Array): string[] {
+  return readProgram(bytes).map(({ offset, size, instruction }) => {
+    const hex = Array.from(bytes.subarray(offset, offset + size))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join(" ");
+    return `${offset.toString(16).padStart(4, "0")}  ${hex.padEnd(
+      26
+    )} ${formatInstruction(instruction)}`;
+  });
 }
 
 // =============================================================================
@@ -687,8 +1009,14 @@ export function demonstrateVisitorPattern(): void {
 
   console.log("计算面积：");
   const areaCalculator = new AreaCalculator();
-  shapes.forEach((shape) => shape.accept(areaCalculator));
-  console.log(`总面积: ${areaCalculator.getTotalArea().toFixed(2)}`);
+  shapes.forEach((shape) =>
+    console.log(
+      `${shape.constructor.name}面积: ${shape
+        .accept(areaCalculator)
+        .toFixed(2)}`
+    )
+  );
+  console.log(`总面积: ${areaCalculator.getTotalArea(shapes).toFixed(2)}`);
 
   console.log("\n计算周长：");
   const perimeterCalculator = new PerimeterCalculator();
@@ -717,10 +1045,13 @@ export function demonstrateVisitorPattern(): void {
 
   console.log("文件大小统计：");
   const sizeCalculator = new FileSizeCalculator();
-  root.accept(sizeCalculator);
-  console.log(`总大小: ${sizeCalculator.getTotalSize()} bytes`);
-  console.log(`文件数: ${sizeCalculator.getFileCount()}`);
-  console.log(`目录数: ${sizeCalculator.getDirectoryCount()}`);
+  const summary = root.accept(sizeCalculator);
+  console.log(`总大小: ${summary.totalSize} bytes`);
+  console.log(`文件数: ${summary.fileCount}`);
+  console.log(`目录数: ${summary.directoryCount}`);
+  console.log(
+    `documents 目录: ${documents.accept(sizeCalculator).totalSize} bytes`
+  );
 
   console.log("\n搜索文件：");
   const searchVisitor = new FileSearchVisitor("tmp");
@@ -737,19 +1068,42 @@ export function demonstrateVisitorPattern(): void {
   );
 
   console.log("表达式求值：");
-  const evaluator = new EvaluationVisitor();
-  evaluator.setVariable("x", 5);
-  ast.accept(evaluator);
-  console.log(`结果: ${evaluator.getResult()}`);
+  const evaluator = new EvaluationVisitor(new Map([["x", 5]]));
+  console.log(`x = 5 时结果: ${ast.accept(evaluator)}`);
+  console.log(
+    `x = 10 时结果: ${ast.accept(new EvaluationVisitor(new Map([["x", 10]])))}`
+  );
 
   console.log("\n代码生成：");
   const codeGenerator = new CodeGenerationVisitor();
-  ast.accept(codeGenerator);
   console.log("生成的代码：");
-  codeGenerator
-    .getCode()
+  ast
+    .accept(codeGenerator)
     .forEach((instruction) => console.log(`  ${instruction}`));
 
+  // 5. 栈式虚拟机演示
+  console.log("\n5. 栈式虚拟机：");
+  const code = ast.accept(codeGenerator);
+  const vm = new StackVirtualMachine(new Map([["x", 5]]));
+  console.log(`执行生成的代码（x = 5）: ${vm.execute(code)}`);
+  const binary = encodeProgram(code);
+  console.log(`二进制编码（${binary.length} 字节）反汇编：`);
+  disassemble(binary).forEach((line) => console.log(`  ${line}`));
+  console.log(`执行二进制程序: ${vm.execute(binary)}`);
+
+  for (const program of [
+    ["PUSH 1", "ADD"],
+    ["LOAD x", "PUSH 0", "DIV"],
+  ]) {
+    try {
+      vm.execute(program);
+    } catch (error) {
+      console.log(
+        `执行 ${program.join("; ")} 失败: ${(error as Error).message}`
+      );
+    }
+  }
+
   console.log("\n=== 访问者模式演示完成 ===");
 }
 
@@ -774,6 +1128,7 @@ export {
   FileSystemNode,
   File,
   Directory,
+  FileSizeSummary,
   FileSizeCalculator,
   FileSearchVisitor,
   FilePermissionChecker,
@@ -784,4 +1139,12 @@ export {
   VariableNode,
   EvaluationVisitor,
   CodeGenerationVisitor,
+  VMOpcode,
+  VMInstruction,
+  VirtualMachineError,
+  StackVirtualMachine,
+  parseInstruction,
+  encodeProgram,
+  decodeProgram,
+  disassemble,
 };
@@ -0,0 +1,377 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  Calculator,
+  ParseError,
+  RegexEngine,
+  SQLInterpreter,
+  SimpleRegexInterpreter,
+  formatCSV,
+  parseCSV,
+} from "../Interpreter";
+
+/**
+ * 与原生 RegExp 对照的一致性用例：[模式, 输入]，按整串匹配比较
+ */
+const CONFORMANCE_CASES: [string, string][] = [
+  ["a*a", "aaa"],
+  ["a*b", "aaab"],
+  ["a*b", "c"],
+  ["a.c", "abc"],
+  ["a.c", "a\nc"],
+  ["a|b", "b"],
+  ["ab|cd|", ""],
+  ["a+", ""],
+  ["a+?a", "aa"],
+  ["colou?r", "color"],
+  ["a{2,3}", "aaaa"],
+  ["a{2,}", "aaaaa"],
+  ["a{2}", "aa"],
+  ["a{,2}", "a{,2}"],
+  ["x{", "x{"],
+  ["[a-z]+\\d*", "abc123"],
+  ["[^a-c]", "d"],
+  ["[^a-c]", "b"],
+  ["[\\w.-]+@[\\w-]+\\.[a-z]{2,}", "john.doe@example.com"],
+  ["[-a]", "-"],
+  ["[a-]", "-"],
+  ["[\\d-z]", "-"],
+  ["[]", "a"],
+  ["[^]", "\n"],
+  ["\\s+\\S", " \t\nx"],
+  ["\\W\\D", "!a"],
+  ["\\x41\\u0042", "AB"],
+  ["\\.\\*\\+", ".*+"],
+  ["(ab)+", "ababab"],
+  ["(?:a|ab)(?:c|bcd)(?:d*)", "abcd"],
+  ["(a*)*b", "aaab"],
+  ["(a|b)*?c", "ababc"],
+  ["(x+x+)+y", "xxxxxxxxxxy"],
+  ["^abc$", "abc"],
+  ["a^b", "ab"],
+  ["\\bfoo\\b", "foo"],
+  ["a\\Bb", "ab"],
+  ["(|a)+", "aa"],
+  ["(a|)*b", "aab"],
+  ["[\\b]", "\b"],
+  ["a]b}", "a]b}"],
+  ["(a)|b", "b"],
+  ["(?:(a)|b)+", "ab"],
+  ["((a)|(b))+", "ab"],
+  ["(a*)+", "b"],
+  ["(\\d+)-(\\d+)", "tel: 010-1234"],
+  ["(z)((a+)?(b+)?(c))*", "zaacbbbcac"],
+];
+
+/**
+ * 整串匹配与原生 ^(?:pattern)$ 比较，exec 的位置和捕获组与原生 RegExp.exec 比较
+ */
+function expectNativeBehaviour(
+  engine: RegexEngine,
+  pattern: string,
+  input: string
+): void {
+  const compiled = new SimpleRegexInterpreter(engine).compile(pattern);
+  expect(compiled.test(input)).toBe(new RegExp(`^(?:${pattern})$`).test(input));
+
+  const native = new RegExp(pattern).exec(input);
+  const match = compiled.exec(input);
+  expect(match && { index: match.index, captures: match.captures }).toEqual(
+    native && { index: native.index, captures: Array.from(native) }
+  );
+}
+
+/**
+ * 执行 work 并返回它抛出的错误
+ */
+function thrown(work: () => unknown): unknown {
+  try {
+    work();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("没有抛出错误");
+}
+
+describe("Calculator", () => {
+  it("解析小数、科学计数法、一元负号和右结合的乘方", () => {
+    const calculator = new Calculator();
+    calculator.setVariable("x", 10);
+    expect(calculator.evaluate("-x + 3.14")).toBeCloseTo(-6.86);
+    expect(calculator.evaluate("1.5e3 % 7")).toBe(2);
+    expect(calculator.evaluate("2 ^ 3 ^ 2")).toBe(512);
+    expect(calculator.evaluate("-2 ^ 2")).toBe(-4);
+  });
+
+  it.each([
+    ["(1 +", 1, 5, "表达式结尾"],
+    ["2 * * 3", 1, 5, '"*"'],
+    ["1 + 2)", 1, 6, '")"'],
+    ["1 +\n  $", 2, 3, '"$"'],
+  ])("报告语法错误的位置（%j）", (expression, line, column, token) => {
+    const error = thrown(() => new Calculator().evaluate(expression));
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ line, column, token });
+  });
+
+  it("有理数模式精确计算", () => {
+    const calculator = new Calculator();
+    calculator.setNumericMode("rational");
+    expect(String(calculator.evaluateExact("0.1 + 0.2"))).toBe("3/10");
+    expect(String(calculator.evaluateExact("1 / 3 + 1 / 6"))).toBe("1/2");
+    expect(calculator.evaluate("0.1 + 0.2")).toBe(0.3);
+  });
+
+  it("定点小数模式按精度舍入", () => {
+    const calculator = new Calculator();
+    calculator.setNumericMode("decimal", 2);
+    expect(String(calculator.evaluateExact("0.1 + 0.2"))).toBe("0.30");
+    expect(String(calculator.evaluateExact("10 / 3"))).toBe("3.33");
+    expect(String(calculator.evaluateExact("-2 / 3"))).toBe("-0.67");
+  });
+
+  it.each(["float", "rational", "decimal"] as const)(
+    "%s 模式下除数为零时报错",
+    (mode) => {
+      const calculator = new Calculator();
+      calculator.setNumericMode(mode);
+      expect(() => calculator.evaluate("1 / (2 - 2)")).toThrow("除数不能为零");
+    }
+  );
+});
+
+describe("SimpleRegexInterpreter", () => {
+  it.each(CONFORMANCE_CASES)(
+    "回溯引擎对 %j 匹配 %j 的结果与原生 RegExp 一致",
+    (pattern, input) => expectNativeBehaviour("backtracking", pattern, input)
+  );
+
+  it("贪婪量词在后续匹配失败时回溯", () => {
+    const regex = new SimpleRegexInterpreter();
+    expect(regex.test("a*a", "aaa")).toBe(true);
+    expect(regex.test("(a|ab)c", "abc")).toBe(true);
+    expect(regex.test("a{2,3}", "aaaa")).toBe(false);
+  });
+
+  it("回溯引擎匹配很长的输入时不会栈溢出", () => {
+    const regex = new SimpleRegexInterpreter();
+    const length = 100000;
+    expect(regex.test("a*", "a".repeat(length))).toBe(true);
+    expect(regex.test("[a-z ]+", "ab c".repeat(length / 4))).toBe(true);
+    expect(regex.test("(?:a|b)*c", "ab".repeat(length / 2) + "c")).toBe(true);
+    const match = regex.exec("(\\w+)=(\\w+)", "k".repeat(length) + "=v");
+    expect(match && match.captures[2]).toBe("v");
+    expect(
+      regex.replaceAll(
+        "(token|ip)=([\\w.]+)",
+        "x ".repeat(length) + "ip=1.2.3.4",
+        "$1=***"
+      )
+    ).toBe("x ".repeat(length) + "ip=***");
+  });
+
+  it.each(CONFORMANCE_CASES)(
+    "自动机引擎对 %j 匹配 %j 的结果与回溯引擎一致",
+    (pattern, input) => {
+      const regex = new SimpleRegexInterpreter();
+      const backtracking = regex.compile(pattern, "backtracking");
+      const automaton = regex.compile(pattern, "automaton");
+      expect(automaton.test(input)).toBe(backtracking.test(input));
+      expect(automaton.exec(input)).toEqual(backtracking.exec(input));
+      expect(automaton.matchAll(input)).toEqual(backtracking.matchAll(input));
+    }
+  );
+
+  it.each(CONFORMANCE_CASES)(
+    "自动机引擎对 %j 匹配 %j 的结果与原生 RegExp 一致",
+    (pattern, input) => expectNativeBehaviour("automaton", pattern, input)
+  );
+
+  it("自动机引擎在灾难性回溯的模式上线性时间完成", () => {
+    const regex = new SimpleRegexInterpreter("automaton");
+    expect(regex.test("(x+x+)+y", "x".repeat(5000))).toBe(false);
+    expect(regex.exec("(a|aa)*b", "a".repeat(5000))).toBeNull();
+  });
+});
+
+describe("SQLInterpreter", () => {
+  const createNullable = () => {
+    const sql = new SQLInterpreter();
+    sql.addTable("t", [
+      { id: 1, a: 1 },
+      { id: 2, a: null },
+      { id: 3, a: 3 },
+    ]);
+    return sql;
+  };
+
+  it.each([
+    ["a = 1", [1]],
+    ["NOT a = 1", [3]],
+    ["a <> 1 OR a = 1", [1, 3]],
+    ["NOT (a > 1 AND a < 5)", [1]],
+    ["a IN (1, NULL)", [1]],
+    ["a NOT IN (1, NULL)", []],
+    ["a IS NULL", [2]],
+    ["a BETWEEN 1 AND 3", [1, 3]],
+    ["a IS NOT NULL AND a = 1 OR id = 3", [1, 3]],
+  ])("WHERE %s 按三值逻辑过滤 NULL", (where, ids) => {
+    const rows = createNullable().execute(`SELECT id FROM t WHERE ${where}`);
+    expect(rows.map((row) => row.id)).toEqual(ids);
+  });
+
+  describe("索引", () => {
+    const createTable = (index?: string) => {
+      const sql = new SQLInterpreter();
+      sql.addTable(
+        "t",
+        Array.from({ length: 200 }, (_, id) => ({
+          id,
+          a: id % 7 === 0 ? null : (id * 37) % 50,
+          b: `k${id % 13}`,
+        }))
+      );
+      if (index) {
+        sql.execute(index);
+      }
+      return sql;
+    };
+    // 使用索引时结果顺序可能与全表扫描不同，按 id 排序后比较
+    const queries = [
+      "SELECT id FROM t WHERE a = 12 ORDER BY id",
+      "SELECT id FROM t WHERE a > 40 AND id < 150 ORDER BY id",
+      "SELECT id FROM t WHERE a BETWEEN 10 AND 20 ORDER BY id",
+      "SELECT id FROM t WHERE a <= 5 OR a IS NULL ORDER BY id",
+      "SELECT id FROM t WHERE a IN (3, 7, NULL) ORDER BY id",
+      "SELECT id FROM t WHERE b = 'k3' AND a >= 25 ORDER BY id",
+    ];
+    const mutations = [
+      "UPDATE t SET a = a + 1 WHERE id % 3 = 0",
+      "DELETE FROM t WHERE a < 10",
+      "INSERT INTO t (id, a, b) VALUES (500, 12, 'k3'), (501, NULL, 'k1')",
+    ];
+
+    it.each([
+      "CREATE INDEX ta ON t (a) USING HASH",
+      "CREATE INDEX ta ON t (a) USING SORTED",
+      "CREATE INDEX tb ON t (b) USING HASH",
+    ])("%s 后结果与全表扫描相同，修改数据后仍然相同", (index) => {
+      const scan = createTable();
+      const indexed = createTable(index);
+      const run = () =>
+        queries.forEach((query) =>
+          expect(indexed.execute(query)).toEqual(scan.execute(query))
+        );
+      run();
+      mutations.forEach((mutation) => {
+        expect(indexed.executeUpdate(mutation)).toBe(
+          scan.executeUpdate(mutation)
+        );
+        run();
+      });
+    });
+
+    it("EXPLAIN 显示使用的索引", () => {
+      const sql = createTable("CREATE INDEX ta ON t (a) USING SORTED");
+      const plan = (query: string) =>
+        sql
+          .execute(`EXPLAIN ${query}`)
+          .map((step) => step.operation)
+          .join(", ");
+      expect(plan("SELECT id FROM t WHERE a = 12")).toMatch(/INDEX/);
+      expect(plan("SELECT id FROM t WHERE a > 40")).toMatch(/INDEX/);
+      expect(plan("SELECT id FROM t WHERE b = 'k3'")).toMatch(/^SCAN/);
+    });
+  });
+
+  describe("表数据文件", () => {
+    const rows = [
+      {
+        id: 1,
+        name: 'say "hi", bob',
+        note: "a\nb",
+        zip: "007",
+        flag: true,
+        empty: "",
+        missing: null,
+        text: "42",
+      },
+      {
+        id: 2.5,
+        name: "x",
+        note: "",
+        zip: "1",
+        flag: false,
+        empty: "z",
+        missing: 3,
+        text: "true",
+      },
+    ];
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "sql-copy-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("CSV 往返后值和类型不变", () => {
+      const text = formatCSV(rows);
+      expect(text.split("\r\n")[0]).toBe(
+        "id,name,note,zip,flag,empty,missing,text"
+      );
+      expect(parseCSV(text)).toEqual(rows);
+    });
+
+    it.each(["csv", "json", "ndjson"])("COPY 经 %s 文件往返", (format) => {
+      const sql = new SQLInterpreter();
+      sql.setFileDirectory(directory);
+      sql.addTable("t", rows);
+      expect(sql.executeUpdate(`COPY t TO 't.${format}'`)).toBe(2);
+      expect(sql.executeUpdate(`COPY u FROM 't.${format}'`)).toBe(2);
+      expect(sql.execute("SELECT * FROM u")).toEqual(rows);
+    });
+
+    it.each([
+      "../x.csv",
+      "sub/../../x.csv",
+      path.join(os.tmpdir(), "x.csv"),
+      "link/x.csv",
+    ])("COPY 拒绝文件目录之外的路径 %s", (file) => {
+      fs.symlinkSync(os.tmpdir(), path.join(directory, "link"));
+      const sql = new SQLInterpreter();
+      sql.setFileDirectory(directory);
+      sql.addTable("t", rows);
+      expect(() => sql.executeUpdate(`COPY t TO '${file}'`)).toThrow(
+        "不在文件目录中"
+      );
+      expect(() => sql.executeUpdate(`COPY u FROM '${file}'`)).toThrow(
+        "不在文件目录中"
+      );
+    });
+  });
+
+  it.each(["SELEC id FROM users", "", ";"])(
+    "语句开头无法识别时列出所有语句关键字（%j）",
+    (sql) => {
+      const error = thrown(() => new SQLInterpreter().execute(sql));
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).expected).toEqual([
+        "SELECT",
+        "INSERT",
+        "UPDATE",
+        "DELETE",
+        "CREATE",
+        "EXPLAIN",
+        "COPY",
+        "BEGIN",
+        "COMMIT",
+        "ROLLBACK",
+      ]);
+    }
+  );
+});
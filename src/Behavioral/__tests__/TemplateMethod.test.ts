@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  HTMLDocumentGenerator,
+  MarkdownDocumentGenerator,
+  TemplateEngine,
+  TemplateSyntaxError,
+} from "../TemplateMethod";
+
+describe("TemplateEngine", () => {
+  it("默认转义输出中的 HTML 特殊字符", () => {
+    const engine = new TemplateEngine();
+    expect(engine.render("<p>{{ text }}</p>", { text: `<a href="x">&'` })).toBe(
+      "<p>&lt;a href=&quot;x&quot;&gt;&amp;&#39;</p>"
+    );
+    expect(engine.render("{{ text | safe }}", { text: "<b>" })).toBe("<b>");
+  });
+
+  it("autoescape 为 false 时原样输出", () => {
+    const engine = new TemplateEngine({ autoescape: false });
+    expect(engine.render("{{ text }}", { text: "<b>&" })).toBe("<b>&");
+  });
+
+  it("for 循环提供 loop 变量，空列表时渲染 else 分支", () => {
+    const engine = new TemplateEngine();
+    const source =
+      "{% for x in xs %}{{ loop.index }}:{{ x }}" +
+      "{% if not loop.last %},{% endif %}{% else %}none{% endfor %}";
+    expect(engine.render(source, { xs: ["a", "b"] })).toBe("1:a,2:b");
+    expect(engine.render(source, { xs: [] })).toBe("none");
+  });
+
+  it("if、elif、else 按条件选择分支", () => {
+    const template = new TemplateEngine().compile(
+      '{% if a > 1 and b == "x" %}yes{% elif a %}mid{% else %}no{% endif %}'
+    );
+    expect(template.render({ a: 2, b: "x" })).toBe("yes");
+    expect(template.render({ a: 1, b: "x" })).toBe("mid");
+    expect(template.render({ a: 0 })).toBe("no");
+  });
+
+  it("过滤器、嵌套字段和注释", () => {
+    const engine = new TemplateEngine();
+    expect(
+      engine.render(
+        '{{ user.name | upper }} {{ missing | default("?") }} ' +
+          '{{ xs | length }} {{ xs | join("-") }}{# 注释 #}',
+        { user: { name: "ab" }, xs: [1, 2] }
+      )
+    ).toBe("AB ? 2 1-2");
+    expect(
+      engine.render('{{ d | date("YYYY-MM-DD") }}', {
+        d: "2024-03-15T08:30:00Z",
+      })
+    ).toBe("2024-03-15");
+  });
+
+  it("局部模板使用当前作用域，并限制嵌套深度", () => {
+    const engine = new TemplateEngine();
+    engine.registerPartial("item", "<li>{{ item }}</li>");
+    engine.registerPartial("loop", '{% include "loop" %}');
+    expect(
+      engine.render('{% for item in xs %}{% include "item" %}{% endfor %}', {
+        xs: ["a", "<b>"],
+      })
+    ).toBe("<li>a</li><li>&lt;b&gt;</li>");
+    expect(() => engine.render('{% include "loop" %}')).toThrow("嵌套过深");
+    expect(() => engine.render('{% include "none" %}')).toThrow(
+      "未知的局部模板"
+    );
+  });
+
+  it.each([
+    ["a\n{% if x %}\nb", "缺少 {% endif %}", 2, 3],
+    ["{{ x | nope }}", "未知的过滤器", 1, 8],
+    ["{% for %}", "需要变量名", 1, 8],
+  ])("报告语法错误的位置（%j）", (source, message, line, column) => {
+    const render = () => new TemplateEngine().render(source);
+    expect(render).toThrow(TemplateSyntaxError);
+    expect(render).toThrow(message);
+    expect(render).toThrow(expect.objectContaining({ line, column }));
+  });
+});
+
+describe("DocumentGenerator", () => {
+  it("HTML 生成器转义数据，Markdown 生成器原样输出", () => {
+    const data = { name: "<张三>" };
+    expect(
+      new HTMLDocumentGenerator().getTemplateEngine().render("{{ name }}", data)
+    ).toBe("&lt;张三&gt;");
+    expect(
+      new MarkdownDocumentGenerator()
+        .getTemplateEngine()
+        .render("{{ name }}", data)
+    ).toBe("<张三>");
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  ASTNode,
+  BinaryOpNode,
+  CodeGenerationVisitor,
+  Directory,
+  EvaluationVisitor,
+  File,
+  FileSearchVisitor,
+  FileSizeCalculator,
+  NumberNode,
+  StackVirtualMachine,
+  VariableNode,
+  VMInstruction,
+  VirtualMachineError,
+  decodeProgram,
+  encodeProgram,
+  parseInstruction,
+} from "../Visitor";
+
+/**
+ * 可重现的伪随机数生成器（mulberry32），返回 [0, 1) 之间的数
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 随机生成深度不超过 depth 的AST，叶子为整数、小数或变量 x、y、z
+ */
+function randomAST(random: () => number, depth: number): ASTNode {
+  if (depth === 0 || random() < 0.3) {
+    const kind = random();
+    if (kind < 0.4) {
+      return new VariableNode(["x", "y", "z"][Math.floor(random() * 3)]);
+    }
+    if (kind < 0.8) {
+      return new NumberNode(Math.floor(random() * 2001) - 1000);
+    }
+    return new NumberNode(Math.round(random() * 1e6) / 1e3);
+  }
+  return new BinaryOpNode(
+    randomAST(random, depth - 1),
+    ["+", "-", "*", "/"][Math.floor(random() * 4)],
+    randomAST(random, depth - 1)
+  );
+}
+
+/**
+ * 虚拟机与求值访问者的一致性检查结果
+ */
+interface VMAgreementReport {
+  total: number;
+  // 运行时出现除零的用例：虚拟机报错，EvaluationVisitor 得到 Infinity 或 NaN
+  divisionByZero: number;
+  mismatches: { expression: string[]; expected: number; actual: string }[];
+}
+
+/**
+ * 随机生成AST，分别用 EvaluationVisitor 求值、用虚拟机执行生成的代码及其
+ * 二进制编码，三者的结果应当完全相同；同时检查编码、解码后指令不变
+ */
+function checkVirtualMachineAgreement(
+  count: number = 500,
+  seed: number = 1,
+  maxDepth: number = 6
+): VMAgreementReport {
+  const random = createRandom(seed);
+  const generator = new CodeGenerationVisitor();
+  const report: VMAgreementReport = {
+    total: count,
+    divisionByZero: 0,
+    mismatches: [],
+  };
+
+  for (let i = 0; i < count; i++) {
+    const variables = new Map([
+      ["x", Math.floor(random() * 21) - 10],
+      ["y", Math.round(random() * 1e4) / 1e2],
+      ["z", Math.floor(random() * 5) - 2],
+    ]);
+    const ast = randomAST(random, maxDepth);
+    const code = ast.accept(generator);
+    const expected = ast.accept(new EvaluationVisitor(variables));
+    const vm = new StackVirtualMachine(variables);
+
+    let actual: string;
+    try {
+      const fromText = vm.execute(code);
+      const binary = encodeProgram(code);
+      const fromBinary = vm.execute(binary);
+      const roundTrip = decodeProgram(binary);
+      if (!Object.is(fromText, fromBinary)) {
+        actual = `文本 ${fromText}，二进制 ${fromBinary}`;
+      } else if (
+        JSON.stringify(roundTrip) !==
+        JSON.stringify(code.map((text) => parseInstruction(text)))
+      ) {
+        actual = `编码往返后指令不同: ${JSON.stringify(roundTrip)}`;
+      } else {
+        actual = String(fromText);
+        if (Object.is(fromText, expected)) {
+          continue;
+        }
+      }
+    } catch (error) {
+      if (
+        error instanceof VirtualMachineError &&
+        error.message.startsWith("除数不能为零")
+      ) {
+        report.divisionByZero++;
+        continue;
+      }
+      actual = `错误: ${(error as Error).message}`;
+    }
+    report.mismatches.push({ expression: code, expected, actual });
+  }
+  return report;
+}
+
+describe("StackVirtualMachine", () => {
+  it.each([1, 2, 3, 42])(
+    "随机 AST 的执行结果与 EvaluationVisitor 一致（种子 %i）",
+    (seed) => {
+      const report = checkVirtualMachineAgreement(500, seed);
+      expect(report.mismatches).toEqual([]);
+      expect(report.divisionByZero).toBeLessThan(report.total);
+    }
+  );
+
+  it("执行文本指令和二进制编码得到相同的结果", () => {
+    const code = ["LOAD x", "PUSH 2.5", "MUL", "PUSH 300", "SUB"];
+    const vm = new StackVirtualMachine(new Map([["x", 4]]));
+    const binary = encodeProgram(code);
+    expect(vm.execute(code)).toBe(-290);
+    expect(vm.execute(binary)).toBe(-290);
+  });
+
+  it("报告栈下溢和除零", () => {
+    const vm = new StackVirtualMachine();
+    expect(() => vm.execute(["PUSH 1", "ADD"])).toThrow("栈下溢");
+    expect(() => vm.execute(["PUSH 1", "PUSH 0", "DIV"])).toThrow(
+      "除数不能为零"
+    );
+  });
+
+  it("按文本指令的规则检查指令对象", () => {
+    const vm = new StackVirtualMachine();
+    const invalid: unknown[] = [
+      [{ opcode: "PUSH" }],
+      [{ opcode: "PUSH", operand: "1" }],
+      [{ opcode: "LOAD", operand: "my var" }],
+      [{ opcode: "NOP" }],
+      [
+        { opcode: "PUSH", operand: 1 },
+        { opcode: "PUSH", operand: 2 },
+        { opcode: "ADD", operand: 3 },
+      ],
+    ];
+    invalid.forEach((program) => {
+      expect(() => vm.execute(program as VMInstruction[])).toThrow(
+        VirtualMachineError
+      );
+    });
+  });
+
+  it("报告格式错误的二进制程序及出错的字节位置", () => {
+    const vm = new StackVirtualMachine();
+    const binary = encodeProgram(["LOAD x", "PUSH 1000", "ADD"]);
+    const decode = (bytes: Uint8Array) => {
+      try {
+        vm.execute(bytes);
+      } catch (error) {
+        return error;
+      }
+    };
+
+    const truncated = decode(binary.subarray(0, binary.length - 3));
+    expect(truncated).toBeInstanceOf(VirtualMachineError);
+    expect(truncated).toMatchObject({ pc: 1, offset: 5 });
+
+    const unknownName = binary.slice();
+    unknownName[4] = 7;
+    expect(decode(unknownName)).toMatchObject({ pc: 0, offset: 3 });
+
+    const unknownOpcode = binary.slice();
+    unknownOpcode[binary.length - 1] = 0xff;
+    expect(decode(unknownOpcode)).toMatchObject({
+      pc: 2,
+      offset: binary.length - 1,
+    });
+
+    expect(decode(new Uint8Array([1, 5, 120]))).toMatchObject({
+      pc: 0,
+      offset: 1,
+    });
+  });
+
+  it("编码时报告过长的变量名", () => {
+    expect(() => encodeProgram(["PUSH 1", `LOAD ${"x".repeat(256)}`])).toThrow(
+      expect.objectContaining({ pc: 1 })
+    );
+  });
+});
+
+describe("FileSystemVisitor", () => {
+  const createTree = () => {
+    const root = new Directory("root");
+    const logs = new Directory("logs");
+    logs.addChild(new File("app", 300, "tmp"));
+    root.addChild(logs);
+    root.addChild(new File("readme", 100, "txt"));
+    return root;
+  };
+
+  it("accept 遍历整棵树", () => {
+    const search = new FileSearchVisitor("tmp");
+    createTree().accept(search);
+    expect(search.getSearchResults().map((file) => file.getName())).toEqual([
+      "app",
+    ]);
+  });
+
+  it("FileSizeCalculator 汇总子树的结果", () => {
+    expect(createTree().accept(new FileSizeCalculator())).toEqual({
+      totalSize: 400,
+      fileCount: 2,
+      directoryCount: 2,
+    });
+  });
+});
+
+describe("CodeGenerationVisitor", () => {
+  it("拒绝包含空白的变量名", () => {
+    const ast = new BinaryOpNode(
+      new VariableNode("my var"),
+      "+",
+      new NumberNode(1)
+    );
+    expect(() => ast.accept(new CodeGenerationVisitor())).toThrow("变量名");
+  });
+});